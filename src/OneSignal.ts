@@ -15,12 +15,14 @@ import PushPermissionNotGrantedError from './errors/PushPermissionNotGrantedErro
 import { PushPermissionNotGrantedErrorReason } from './errors/PushPermissionNotGrantedError';
 import { SdkInitError, SdkInitErrorKind } from './errors/SdkInitError';
 import Event from './Event';
+import BadgeHelper from './helpers/BadgeHelper';
 import EventHelper from './helpers/EventHelper';
 import HttpHelper from './helpers/HttpHelper';
 import InitHelper from './helpers/InitHelper';
 import MainHelper from './helpers/MainHelper';
 import SubscriptionHelper from './helpers/SubscriptionHelper';
 import TestHelper from './helpers/TestHelper';
+import UserDataHelper from './helpers/UserDataHelper';
 import LimitStore from './LimitStore';
 import AltOriginManager from './managers/AltOriginManager';
 import LegacyManager from './managers/LegacyManager';
@@ -30,9 +32,13 @@ import { SubscriptionManager } from './managers/SubscriptionManager';
 import { AppConfig } from './models/AppConfig';
 import Context from './models/Context';
 import { Notification } from './models/Notification';
+import { NotificationHistoryEntry, NotificationHistoryQuery } from './models/NotificationHistoryEntry';
 import { NotificationActionButton } from './models/NotificationActionButton';
+import { NotificationDisplayOptions } from './models/NotificationDisplayOptions';
 import { NotificationPermission } from './models/NotificationPermission';
 import { PermissionPromptType } from './models/PermissionPromptType';
+import { SubscriptionState } from './models/SubscriptionState';
+import { UserDataExport } from './models/UserDataExport';
 import { Uuid } from './models/Uuid';
 import { WindowEnvironmentKind } from './models/WindowEnvironmentKind';
 import ProxyFrame from './modules/frames/ProxyFrame';
@@ -49,7 +55,6 @@ import { ResourceLoadState } from './services/DynamicResourceLoader';
 import IndexedDb from './services/IndexedDb';
 import {
   awaitOneSignalInitAndSupported,
-  awaitSdkEvent,
   executeCallback,
   getConsoleStyle,
   isValidEmail,
@@ -58,6 +63,8 @@ import {
 } from './utils';
 import { ValidatorUtils } from './utils/ValidatorUtils';
 import { PushRegistration } from './models/PushRegistration';
+import { UnsubscriptionStrategy } from './models/UnsubscriptionStrategy';
+import { DebugInfo } from './models/DebugInfo';
 
 
 export default class OneSignal {
@@ -118,6 +125,85 @@ export default class OneSignal {
     }
   }
 
+  /**
+   * Associates the subscriber with an ID from the site's own user system. The ID is stored locally and re-sent if
+   * the subscriber is later registered under a new device ID.
+   * @PublicApi
+   */
+  static async setExternalUserId(externalUserId: string): Promise<void> {
+    if (!externalUserId)
+      throw new InvalidArgumentError('externalUserId', InvalidArgumentReason.Empty);
+    if (typeof externalUserId !== 'string')
+      throw new InvalidArgumentError('externalUserId', InvalidArgumentReason.Malformed);
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('setExternalUserId', externalUserId);
+    await Database.setExternalUserId(externalUserId);
+    await OneSignal.syncExternalUserId(externalUserId);
+  }
+
+  /**
+   * Removes the association between the subscriber and the site's own user ID.
+   * @PublicApi
+   */
+  static async removeExternalUserId(): Promise<void> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('removeExternalUserId');
+    await Database.setExternalUserId(null);
+    await OneSignal.syncExternalUserId('');
+  }
+
+  /**
+   * Returns a promise that resolves to the stored external user ID if one is set; otherwise null.
+   * @PublicApi
+   */
+  static async getExternalUserId(callback?: Action<string>): Promise<string> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('getExternalUserId', callback);
+    const externalUserId = await Database.getExternalUserId();
+    executeCallback(callback, externalUserId);
+    return externalUserId;
+  }
+
+  /**
+   * Sets the language notifications are displayed in when they carry text in several languages, overriding the
+   * browser's language. Pass null to use the browser's language again.
+   * @PublicApi
+   */
+  static async setLanguage(language: string, callback?: Action<void>): Promise<void> {
+    if (language !== null && typeof language !== 'string')
+      throw new InvalidArgumentError('language', InvalidArgumentReason.Malformed);
+    if (language === '')
+      throw new InvalidArgumentError('language', InvalidArgumentReason.Empty);
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('setLanguage', language);
+    await Database.setLanguage(language);
+
+    const { appId } = await Database.getAppConfig();
+    const { deviceId } = await Database.getSubscription();
+    if (deviceId && deviceId.value) {
+      await OneSignalApi.updatePlayer(appId, deviceId, {
+        language: language || Environment.getLanguage()
+      });
+    }
+    executeCallback(callback);
+  }
+
+  /**
+   * Uploads the external user ID to OneSignal if the user is registered. Otherwise, the stored value is sent once the
+   * user registers.
+   */
+  private static async syncExternalUserId(externalUserId: string) {
+    const { appId } = await Database.getAppConfig();
+    const { deviceId } = await Database.getSubscription();
+    if (!deviceId || !deviceId.value) {
+      log.debug('Not uploading the external user ID yet because the user is not registered.');
+      return;
+    }
+    await OneSignalApi.updatePlayer(appId, deviceId, {
+      external_user_id: externalUserId
+    });
+  }
+
   /**
    * Returns true if the current browser supports web push.
    * @PublicApi
@@ -141,6 +227,8 @@ export default class OneSignal {
     InitHelper.ponyfillSafariFetch();
     InitHelper.errorIfInitAlreadyCalled();
 
+    OneSignal._requiresUserPrivacyConsent = !!(options && options.requiresUserPrivacyConsent);
+
     const appConfig = await InitHelper.downloadAndMergeAppConfig(options);
     log.debug(`OneSignal: Final web app config: %c${JSON.stringify(appConfig, null, 4)}`, getConsoleStyle('code'));
     OneSignal.context = new Context(appConfig);
@@ -226,6 +314,24 @@ export default class OneSignal {
     }
   }
 
+  /**
+   * Records whether the user consents to OneSignal processing their data, on sites initialized with
+   * requiresUserPrivacyConsent. Public API calls, network requests, and prompts held until consent run once consent is
+   * given. Consent isn't persisted; call this on every page load after the site's consent manager resolves.
+   * @PublicApi
+   */
+  static async provideUserConsent(consent: boolean) {
+    logMethodCall('provideUserConsent', consent);
+    if (typeof consent !== 'boolean') {
+      throw new InvalidArgumentError('consent', InvalidArgumentReason.Malformed);
+    }
+    const wasConsentGiven = OneSignal._userConsentGiven;
+    OneSignal._userConsentGiven = consent;
+    if (consent && !wasConsentGiven) {
+      Event.trigger(OneSignal.EVENTS.PRIVACY_CONSENT_PROVIDED);
+    }
+  }
+
   /**
    * Shows a sliding modal prompt on the page for users to trigger the HTTP popup window to subscribe.
    * @PublicApi
@@ -458,11 +564,17 @@ export default class OneSignal {
   }
 
   /**
+   * Returns the player's tags from a local cache, which is filled on the first call. Pass { refresh: true } to fetch
+   * the tags from OneSignal again.
    * @PublicApi
    */
-  static async getTags(callback) {
+  static async getTags(options?: { refresh?: boolean } | Action<Object>, callback?: Action<Object>) {
+    if (typeof options === 'function') {
+      callback = options as Action<Object>;
+      options = undefined;
+    }
     await awaitOneSignalInitAndSupported();
-    logMethodCall('getTags', callback);
+    logMethodCall('getTags', options, callback);
     const { appId } = await Database.getAppConfig();
     const { deviceId } = await Database.getSubscription();
     if (!deviceId || !deviceId.value) {
@@ -470,7 +582,8 @@ export default class OneSignal {
       log.info(new NotSubscribedError(NotSubscribedReason.NoDeviceId));
       return null;
     }
-    const { tags } = await OneSignalApi.getPlayer(appId, deviceId);
+    const refresh = !!(options && (options as { refresh?: boolean }).refresh);
+    const tags = await OneSignal.context.tagManager.getTags(appId, deviceId, refresh);
     executeCallback(callback, tags);
     return tags;
   }
@@ -500,16 +613,24 @@ export default class OneSignal {
       if (tags[key] === false)
         tags[key] = "false";
     });
-    const { appId } = await Database.getAppConfig();
-    var { deviceId } = await Database.getSubscription();
-    if (!deviceId || !deviceId.value) {
-      await awaitSdkEvent(OneSignal.EVENTS.REGISTERED);
-    }
-    // After the user subscribers, he will have a device ID, so get it again
-    var { deviceId: newDeviceId } = await Database.getSubscription();
-    await OneSignalApi.updatePlayer(appId, newDeviceId, {
-      tags: tags
-    });
+    /*
+      Tags are queued in IndexedDB and sent once the user is registered and online. Writes to the same key made
+      before then are coalesced.
+     */
+    await OneSignal.context.tagManager.sendTags(tags);
+    executeCallback(callback, tags);
+    return tags;
+  }
+
+  /**
+   * Returns the tag writes queued but not yet acknowledged by OneSignal, keyed by tag key. A value of '' is a
+   * pending deletion.
+   * @PublicApi
+   */
+  static async getPendingTagOperations(callback?: Action<Object>): Promise<Object> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('getPendingTagOperations', callback);
+    const tags = await OneSignal.context.tagManager.getPendingOperations();
     executeCallback(callback, tags);
     return tags;
   }
@@ -543,6 +664,151 @@ export default class OneSignal {
     return deletedTagKeys;
   }
 
+  /**
+   * Returns everything the SDK stores locally for the user, along with the user's player record on OneSignal.
+   * @PublicApi
+   */
+  static async exportUserData(callback?: Action<UserDataExport>): Promise<UserDataExport> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('exportUserData', callback);
+    const userData = await UserDataHelper.exportUserData();
+    executeCallback(callback, userData);
+    return userData;
+  }
+
+  /**
+   * Unsubscribes the user from push, deletes the user's player record on OneSignal, and removes all data the SDK
+   * stored locally, including OneSignal's service worker.
+   * @PublicApi
+   */
+  static async eraseUserData(callback?: Action<void>): Promise<void> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('eraseUserData', callback);
+    await UserDataHelper.eraseUserData();
+    executeCallback(callback);
+  }
+
+  /**
+   * Returns the notifications recently displayed by the service worker, most recently displayed first, including when
+   * each was clicked or dismissed.
+   * @param query Optionally limits the number of notifications returned, or only returns notifications displayed at
+   *              or after a time.
+   * @PublicApi
+   */
+  static async getNotificationHistory(query?: NotificationHistoryQuery | Action<Array<NotificationHistoryEntry>>,
+                                      callback?: Action<Array<NotificationHistoryEntry>>): Promise<Array<NotificationHistoryEntry>> {
+    if (typeof query === 'function') {
+      callback = query as Action<Array<NotificationHistoryEntry>>;
+      query = undefined;
+    }
+    const { limit, since } = (query || {}) as NotificationHistoryQuery;
+    if (limit !== undefined && (typeof limit !== 'number' || limit < 0)) {
+      throw new InvalidArgumentError('limit', InvalidArgumentReason.Malformed);
+    }
+    if (since !== undefined && !(since instanceof Date) && typeof since !== 'number') {
+      throw new InvalidArgumentError('since', InvalidArgumentReason.Malformed);
+    }
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('getNotificationHistory', query, callback);
+    let history = await Database.getNotificationHistory();
+    if (since !== undefined) {
+      const sinceTime = since instanceof Date ? since.getTime() : since;
+      history = history.filter(entry => entry.displayedAt >= sinceTime);
+    }
+    if (limit !== undefined) {
+      history = history.slice(0, limit);
+    }
+    executeCallback(callback, history);
+    return history;
+  }
+
+  /**
+   * Removes all notifications from the notification history.
+   * @PublicApi
+   */
+  static async clearNotificationHistory(callback?: Action<void>): Promise<void> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('clearNotificationHistory', callback);
+    await Database.clearNotificationHistory();
+    executeCallback(callback);
+  }
+
+  /**
+   * Sets the function that changes the page when a notification click navigates this tab, for single-page apps that
+   * route without reloading. Used when the inPageNavigation init option is set. Pass null to reload the tab again.
+   * @PublicApi
+   */
+  static setNavigationHandler(handler: Action<string>) {
+    if (handler !== null && typeof handler !== 'function')
+      throw new InvalidArgumentError('handler', InvalidArgumentReason.Malformed);
+    logMethodCall('setNavigationHandler', handler);
+    OneSignal._navigationHandler = handler;
+  }
+
+  /**
+   * Sets the function called with the notification when the user clicks the action button with this ID. The handler
+   * runs on an open page of the site, whether or not the button opens a window; clicks made while no page is open
+   * aren't passed to it. Pass null to remove the handler.
+   * @PublicApi
+   */
+  static onActionButton(actionId: string, handler: Action<any>) {
+    if (!actionId)
+      throw new InvalidArgumentError('actionId', InvalidArgumentReason.Empty);
+    if (typeof actionId !== 'string')
+      throw new InvalidArgumentError('actionId', InvalidArgumentReason.Malformed);
+    if (handler !== null && typeof handler !== 'function')
+      throw new InvalidArgumentError('handler', InvalidArgumentReason.Malformed);
+    logMethodCall('onActionButton', actionId, handler);
+    if (handler) {
+      OneSignal._actionButtonHandlers[actionId] = handler;
+    } else {
+      delete OneSignal._actionButtonHandlers[actionId];
+    }
+  }
+
+  /**
+   * Returns diagnostic state for troubleshooting notification delivery.
+   * @PublicApi
+   */
+  static async getDebugInfo(callback?: Action<DebugInfo>): Promise<DebugInfo> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('getDebugInfo', callback);
+    const debugInfo: DebugInfo = {
+      sdkVersion: Environment.version(),
+      duplicateNotificationsDropped: await Database.getDuplicateNotificationsDropped()
+    };
+    executeCallback(callback, debugInfo);
+    return debugInfo;
+  }
+
+  /**
+   * Returns the number of unread notifications, which the service worker counts up when a notification is displayed
+   * and down when it's clicked or dismissed.
+   * @PublicApi
+   */
+  static async getBadgeCount(callback?: Action<number>): Promise<number> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('getBadgeCount', callback);
+    const badgeCount = await Database.getBadgeCount();
+    executeCallback(callback, badgeCount);
+    return badgeCount;
+  }
+
+  /**
+   * Sets the number of unread notifications (e.g. to 0 once the user has read them on the site) and shows it on the
+   * app badge where supported.
+   * @PublicApi
+   */
+  static async setBadgeCount(count: number, callback?: Action<void>): Promise<void> {
+    if (typeof count !== 'number' || count < 0 || Math.floor(count) !== count)
+      throw new InvalidArgumentError('count', InvalidArgumentReason.Malformed);
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('setBadgeCount', count, callback);
+    await Database.setBadgeCount(count);
+    await BadgeHelper.displayBadgeCount(count);
+    executeCallback(callback);
+  }
+
   /**
    * @PublicApi
    */
@@ -592,8 +858,7 @@ export default class OneSignal {
         !hasInsecureParentOrigin) {
 
       const serviceWorkerActiveState = await OneSignal.context.serviceWorkerManager.getActiveState();
-      const serviceWorkerActive = (serviceWorkerActiveState === ServiceWorkerActiveState.WorkerA) ||
-        (serviceWorkerActiveState === ServiceWorkerActiveState.WorkerB);
+      const serviceWorkerActive = ServiceWorkerManager.isOneSignalWorker(serviceWorkerActiveState);
 
       isPushEnabled = !!(deviceId &&
                       subscriptionToken &&
@@ -625,6 +890,19 @@ export default class OneSignal {
     return isPushEnabled;
   }
 
+  /**
+   * Returns the permission, service worker state, stored subscription, and whether the stored push token is still the
+   * browser's push subscription in a single snapshot.
+   * @PublicApi
+   */
+  static async getSubscriptionState(callback?: Action<SubscriptionState>): Promise<SubscriptionState> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('getSubscriptionState', callback);
+    const subscriptionState = await OneSignal.context.subscriptionManager.getSubscriptionState();
+    executeCallback(callback, subscriptionState);
+    return subscriptionState;
+  }
+
   /**
    * @PublicApi
    */
@@ -653,6 +931,22 @@ export default class OneSignal {
     EventHelper.checkAndTriggerSubscriptionChanged();
   }
 
+  /**
+   * Unsubscribes the user from push notifications. By default the user is only muted and can be resubscribed with
+   * setSubscription(true). Pass { destroy: true } to also remove the browser's push subscription and forget the stored
+   * subscription, so that subscribing again starts over.
+   * @PublicApi
+   */
+  static async unsubscribe(options?: { destroy?: boolean }, callback?: Action<void>): Promise<void> {
+    await awaitOneSignalInitAndSupported();
+    logMethodCall('unsubscribe', options, callback);
+    const strategy = options && options.destroy ?
+      UnsubscriptionStrategy.DestroySubscription :
+      UnsubscriptionStrategy.MarkUnsubscribed;
+    await OneSignal.context.subscriptionManager.unsubscribe(strategy);
+    executeCallback(callback);
+  }
+
   /**
    * @PendingPublicApi
    */
@@ -729,9 +1023,10 @@ export default class OneSignal {
                               url: string = new URL(location.href).origin + '?_osp=do_not_open',
                               icon: URL,
                               data: Map<String, any>,
-                              buttons: Array<NotificationActionButton>): Promise<void> {
+                              buttons: Array<NotificationActionButton>,
+                              options?: NotificationDisplayOptions): Promise<void> {
     await awaitOneSignalInitAndSupported();
-    logMethodCall('sendSelfNotification', title, message, url, icon, data, buttons);
+    logMethodCall('sendSelfNotification', title, message, url, icon, data, buttons, options);
     const appConfig = await Database.getAppConfig();
     const subscription = await Database.getSubscription();
     if (!appConfig.appId)
@@ -742,8 +1037,10 @@ export default class OneSignal {
       throw new InvalidArgumentError('url', InvalidArgumentReason.Malformed);
     if (!ValidatorUtils.isValidUrl(icon, { allowEmpty: true, requireHttps: true }))
       throw new InvalidArgumentError('icon', InvalidArgumentReason.Malformed);
+    if (options && !ValidatorUtils.isValidUrl(options.badge, { allowEmpty: true, requireHttps: true }))
+      throw new InvalidArgumentError('badge', InvalidArgumentReason.Malformed);
     return await OneSignalApi.sendNotification(appConfig.appId, [subscription.deviceId], {'en': title}, {'en': message},
-                                               url, icon, data, buttons);
+                                               url, icon, data, buttons, options);
   }
 
   /**
@@ -764,6 +1061,8 @@ export default class OneSignal {
   static _VERSION = Environment.version();
   static sdkEnvironment = SdkEnvironment;
   static _notificationOpenedCallbacks = [];
+  static _navigationHandler: Action<string> = null;
+  static _actionButtonHandlers: { [actionId: string]: Action<any> } = {};
   static _idsAvailable_callback = [];
   static _defaultLaunchURL = null;
   static config = null;
@@ -826,6 +1125,8 @@ export default class OneSignal {
   static LOGGING = false;
   static _usingNativePermissionHook = false;
   static _initCalled = false;
+  static _requiresUserPrivacyConsent = false;
+  static _userConsentGiven = false;
   static __initAlreadyCalled = false;
   static httpPermissionRequestPostModal: any;
   static _showingHttpPermissionRequest = false;
@@ -901,6 +1202,12 @@ export default class OneSignal {
      * and activated and the user is eligible to receive push notifications at any point after this.
      */
     SUBSCRIPTION_CHANGED: 'subscriptionChange',
+    /**
+     * Occurs when any part of the user's subscription state changes, including the permission, device ID, push token,
+     * opt-out flag, and service worker. Carries { from, to } snapshots as returned by getSubscriptionState(); from is
+     * null the first time.
+     */
+    SUBSCRIPTION_STATE_CHANGED: 'subscriptionStateChange',
     /**
      * Occurs after a POST call to OneSignal's server to send the welcome notification has completed. The actual
      * notification arrives shortly after.
@@ -918,6 +1225,8 @@ export default class OneSignal {
     NOTIFICATION_DISMISSED: 'notificationDismiss',
     /**
      * New event replacing legacy addNotificationOpenedHandler(). Used when the notification was clicked.
+     *
+     * For a summary of grouped notifications, the event data's groupedNotifications lists every grouped notification.
      */
     NOTIFICATION_CLICKED: 'notificationClick',
     /**
@@ -940,6 +1249,11 @@ export default class OneSignal {
      * Occurs when the native permission prompt is displayed.
      */
     PERMISSION_PROMPT_DISPLAYED: 'permissionPromptDisplay',
+    /**
+     * Occurs when the user provides privacy consent on sites initialized with requiresUserPrivacyConsent. SDK
+     * activity held until consent resumes after this event.
+     */
+    PRIVACY_CONSENT_PROVIDED: 'privacyConsentProvided',
     /**
      * For internal testing only. Used for all sorts of things.
      */
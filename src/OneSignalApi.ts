@@ -5,10 +5,12 @@ import * as objectAssign from 'object-assign';
 import Environment from './Environment';
 import SdkEnvironment from './managers/SdkEnvironment';
 import { AppConfig, ServerAppConfig } from './models/AppConfig';
+import { NotificationDisplayOptions } from './models/NotificationDisplayOptions';
 import { PushRegistration } from './models/PushRegistration';
 import { Uuid } from './models/Uuid';
-import { contains, trimUndefined } from './utils';
+import { awaitUserConsent, contains, isUserConsentPending, trimUndefined } from './utils';
 import { OneSignalApiErrorKind, OneSignalApiError } from './errors/OneSignalApiError';
+import ServiceUnavailableError from './errors/ServiceUnavailableError';
 import { WindowEnvironmentKind } from './models/WindowEnvironmentKind';
 
 
@@ -31,6 +33,11 @@ export default class OneSignalApi {
   }
 
   static call(method, action, data, headers) {
+    if (isUserConsentPending()) {
+      log.debug(`Delaying ${method} ${action} until the user provides privacy consent.`);
+      return awaitUserConsent().then(() => OneSignalApi.call(method, action, data, headers));
+    }
+
     let callHeaders: any = new Headers();
     callHeaders.append('SDK-Version', `onesignal/web/${Environment.version()}`);
     callHeaders.append('Content-Type', 'application/json;charset=UTF-8');
@@ -57,6 +64,8 @@ export default class OneSignalApi {
         .then(json => {
           if (status >= 200 && status < 300)
             return json;
+          else if (status >= 500)
+            return Promise.reject(new ServiceUnavailableError(`The request failed with status ${status}.`));
           else {
             let error = OneSignalApi.identifyError(json);
             if (error === 'no-user-id-error') {
@@ -106,11 +115,16 @@ export default class OneSignalApi {
     return OneSignalApi.get(`players/${playerId}?app_id=${appId}`);
   }
 
+  static deletePlayer(appId: Uuid, playerId: Uuid) {
+    return OneSignalApi.delete(`players/${playerId.value}?app_id=${appId.value}`);
+  }
+
   static updatePlayer(appId: Uuid, playerId: Uuid, options?: Object) {
     return OneSignalApi.put(`players/${playerId.value}`, objectAssign({app_id: appId.value}, options));
   }
 
-  static sendNotification(appId: Uuid, playerIds: Array<Uuid>, titles, contents, url, icon, data, buttons) {
+  static sendNotification(appId: Uuid, playerIds: Array<Uuid>, titles, contents, url, icon, data, buttons,
+                          options?: NotificationDisplayOptions) {
     var params = {
       app_id: appId.value,
       contents: contents,
@@ -129,6 +143,9 @@ export default class OneSignalApi {
       (params as any).chrome_web_icon = icon;
       (params as any).firefox_icon = icon;
     }
+    if (options) {
+      (params as any).chrome_web_badge = options.badge;
+    }
     trimUndefined(params);
     return OneSignalApi.post('notifications', params);
   }
@@ -179,6 +196,9 @@ export default class OneSignalApi {
         if (serverConfig.config.onesignal_vapid_public_key) {
           config.onesignalVapidPublicKey = serverConfig.config.onesignal_vapid_public_key;
         }
+        if (serverConfig.config.webhook_secret) {
+          config.webhookSecret = serverConfig.config.webhook_secret;
+        }
       }
       return config;
     } catch (e) {
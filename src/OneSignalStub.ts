@@ -43,19 +43,36 @@ untypedOneSignalStub.init = untypedOneSignalStub.showHttpPrompt
   = untypedOneSignalStub.checkAndWipeUserSubscription
   = untypedOneSignalStub.subscriptionBell
   = untypedOneSignalStub.notifyButton
+  = untypedOneSignalStub.setNavigationHandler
+  = untypedOneSignalStub.onActionButton
   = function() { };
 
 untypedOneSignalStub.setDefaultNotificationUrl = untypedOneSignalStub.setDefaultTitle
   = untypedOneSignalStub.syncHashedEmail
+  = untypedOneSignalStub.provideUserConsent
+  = untypedOneSignalStub.setExternalUserId
+  = untypedOneSignalStub.removeExternalUserId
+  = untypedOneSignalStub.getExternalUserId
+  = untypedOneSignalStub.setLanguage
   = untypedOneSignalStub.getTags
   = untypedOneSignalStub.sendTag
   = untypedOneSignalStub.sendTags
   = untypedOneSignalStub.deleteTag
   = untypedOneSignalStub.deleteTags
+  = untypedOneSignalStub.getPendingTagOperations
+  = untypedOneSignalStub.exportUserData
+  = untypedOneSignalStub.eraseUserData
+  = untypedOneSignalStub.getNotificationHistory
+  = untypedOneSignalStub.clearNotificationHistory
+  = untypedOneSignalStub.getDebugInfo
+  = untypedOneSignalStub.getBadgeCount
+  = untypedOneSignalStub.setBadgeCount
   = untypedOneSignalStub.addListenerForNotificationOpened
   = untypedOneSignalStub.getIdsAvailable
   = untypedOneSignalStub.isPushNotificationsEnabled
+  = untypedOneSignalStub.getSubscriptionState
   = untypedOneSignalStub.setSubscription
+  = untypedOneSignalStub.unsubscribe
   = untypedOneSignalStub.getUserId
   = untypedOneSignalStub.getRegistrationId
   = untypedOneSignalStub.getSubscription
@@ -0,0 +1,24 @@
+import * as log from 'loglevel';
+
+export default class BadgeHelper {
+  /**
+   * Shows the count on the installed web app's icon, or clears the badge for a count of 0. Does nothing in browsers
+   * without the Badging API.
+   */
+  static async displayBadgeCount(count: number): Promise<void> {
+    // The Badging API isn't part of the TypeScript DOM typings yet
+    const badgingNavigator: any = navigator;
+    if (!badgingNavigator.setAppBadge) {
+      return;
+    }
+    try {
+      if (count > 0) {
+        await badgingNavigator.setAppBadge(count);
+      } else {
+        await badgingNavigator.clearAppBadge();
+      }
+    } catch (e) {
+      log.debug('Failed to update the app badge:', e);
+    }
+  }
+}
@@ -4,8 +4,11 @@ import Event from '../Event';
 import LimitStore from '../LimitStore';
 import OneSignalApi from '../OneSignalApi';
 import Database from '../services/Database';
+import { SubscriptionState } from '../models/SubscriptionState';
 import { decodeHtmlEntities, logMethodCall } from '../utils';
 import MainHelper from './MainHelper';
+import LocalizationHelper from './LocalizationHelper';
+import { LocalizedString } from '../models/AppConfig';
 
 export default class EventHelper {
   static onNotificationPermissionChange() {
@@ -22,14 +25,43 @@ export default class EventHelper {
     const appState = await Database.getAppState();
     const { lastKnownPushEnabled } = appState;
     const didStateChange = lastKnownPushEnabled === null || pushEnabled !== lastKnownPushEnabled;
-    if (!didStateChange) return;
-    log.info(
-      `The user's subscription state changed from ` +
-        `${lastKnownPushEnabled === null ? '(not stored)' : lastKnownPushEnabled} ⟶ ${pushEnabled}`
-    );
+    if (didStateChange) {
+      log.info(
+        `The user's subscription state changed from ` +
+          `${lastKnownPushEnabled === null ? '(not stored)' : lastKnownPushEnabled} ⟶ ${pushEnabled}`
+      );
+      appState.lastKnownPushEnabled = pushEnabled;
+      await Database.setAppState(appState);
+      EventHelper.triggerSubscriptionChanged(pushEnabled);
+    }
+    await EventHelper.checkAndTriggerSubscriptionStateChanged();
+  }
+
+  /**
+   * Called when the service worker replaced or lost the push subscription after the browser changed it. The push token
+   * changes even when push stays enabled, so SUBSCRIPTION_CHANGED fires regardless of the previous state.
+   */
+  static async onPushSubscriptionReplaced() {
+    const pushEnabled = await OneSignal.isPushNotificationsEnabled();
+    const appState = await Database.getAppState();
     appState.lastKnownPushEnabled = pushEnabled;
     await Database.setAppState(appState);
     EventHelper.triggerSubscriptionChanged(pushEnabled);
+    await EventHelper.checkAndTriggerSubscriptionStateChanged();
+  }
+
+  /**
+   * Fires subscriptionStateChange with the previous and current subscription state if any part of it changed since
+   * the last check. The token, device ID, or service worker can change without isPushNotificationsEnabled() changing.
+   */
+  static async checkAndTriggerSubscriptionStateChanged() {
+    const to: SubscriptionState = await OneSignal.context.subscriptionManager.getSubscriptionState();
+    const from = await Database.get<SubscriptionState>('Options', 'lastKnownSubscriptionState');
+    if (from && Object.keys(to).every(key => from[key] === to[key])) {
+      return;
+    }
+    await Database.put('Options', { key: 'lastKnownSubscriptionState', value: to });
+    Event.trigger(OneSignal.EVENTS.SUBSCRIPTION_STATE_CHANGED, { from: from || null, to });
   }
 
   static async _onSubscriptionChanged(newSubscriptionState) {
@@ -59,7 +91,8 @@ export default class EventHelper {
         welcome_notification_opts !== undefined &&
           welcome_notification_opts['message'] !== undefined &&
           welcome_notification_opts['message'] !== null &&
-          welcome_notification_opts['message'].length > 0
+          (typeof welcome_notification_opts['message'] === 'object' ||
+            welcome_notification_opts['message'].length > 0)
           ? welcome_notification_opts['message']
           : 'Thanks for subscribing!';
       let unopenableWelcomeNotificationUrl = new URL(location.href).origin + '?_osp=do_not_open';
@@ -67,16 +100,20 @@ export default class EventHelper {
         welcome_notification_opts && welcome_notification_opts['url'] && welcome_notification_opts['url'].length > 0
           ? welcome_notification_opts['url']
           : unopenableWelcomeNotificationUrl;
-      title = decodeHtmlEntities(title);
-      message = decodeHtmlEntities(message);
+      // Every language variant is sent so the subscriber receives the one matching their language
+      const headings = EventHelper.getLocalizedContents(title);
+      const contents = EventHelper.getLocalizedContents(message);
+      const preferredLanguages = await LocalizationHelper.getPreferredLanguages();
+      title = LocalizationHelper.selectVariant(headings, preferredLanguages);
+      message = LocalizationHelper.selectVariant(contents, preferredLanguages);
 
       if (!welcome_notification_disabled) {
         log.debug('Sending welcome notification.');
         OneSignalApi.sendNotification(
           appId,
           [deviceId],
-          { en: title },
-          { en: message },
+          headings,
+          contents,
           url,
           null,
           { __isOneSignalWelcomeNotification: true },
@@ -91,6 +128,24 @@ export default class EventHelper {
     }
   }
 
+  /**
+   * Converts the welcome notification's title or message into the language-keyed contents sent to OneSignal, which
+   * always require an English variant.
+   */
+  private static getLocalizedContents(text: LocalizedString): { [language: string]: string } {
+    if (typeof text !== 'object') {
+      return { en: decodeHtmlEntities(text) };
+    }
+    const contents = {};
+    for (let language of Object.keys(text)) {
+      contents[language] = decodeHtmlEntities(text[language]);
+    }
+    if (contents['en'] === undefined) {
+      contents['en'] = LocalizationHelper.selectVariant(contents, LocalizationHelper.DEFAULT_LANGUAGE_FALLBACKS);
+    }
+    return contents;
+  }
+
   private static async onSubscriptionChanged_evaluateNotifyButtonDisplayPredicate(isSubscribed: boolean) {
     const displayPredicate: () => boolean = OneSignal.config.userConfig.notifyButton.displayPredicate;
     if (displayPredicate && typeof displayPredicate === "function" && OneSignal.notifyButton) {
@@ -0,0 +1,45 @@
+import { AppUserConfigFrequencyCaps } from '../models/AppConfig';
+import { DisplayLogEntry, FrequencyCapOutcome, FrequencyCapResult } from '../models/FrequencyCap';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+const DAY_IN_MS = 24 * HOUR_IN_MS;
+
+export default class FrequencyCapHelper {
+  /**
+   * Returns the first cap displaying another notification of the category would exceed, or null if the notification
+   * can be displayed. Only displayed notifications in the display log count toward the caps.
+   */
+  static findExceededCap(caps: AppUserConfigFrequencyCaps,
+                         displayLog: Array<DisplayLogEntry>,
+                         category: string,
+                         now: number): FrequencyCapResult {
+    if (!caps) {
+      return null;
+    }
+    const outcome = caps.overCap === 'drop' ? FrequencyCapOutcome.Dropped : FrequencyCapOutcome.Collapsed;
+    const displayed = displayLog.filter(entry => entry.outcome === FrequencyCapOutcome.Displayed);
+    const displayedToday = displayed.filter(entry => entry.timestamp > now - DAY_IN_MS);
+
+    if (category && caps.perCategory && typeof caps.perCategory[category] === 'number') {
+      const limit = caps.perCategory[category];
+      if (displayedToday.filter(entry => entry.category === category).length >= limit) {
+        return { cap: 'perCategory', limit, category, outcome };
+      }
+    }
+    if (typeof caps.perHour === 'number' &&
+        displayed.filter(entry => entry.timestamp > now - HOUR_IN_MS).length >= caps.perHour) {
+      return { cap: 'perHour', limit: caps.perHour, outcome };
+    }
+    if (typeof caps.perDay === 'number' && displayedToday.length >= caps.perDay) {
+      return { cap: 'perDay', limit: caps.perDay, outcome };
+    }
+    return null;
+  }
+
+  /**
+   * Removes display log entries too old to count toward any cap.
+   */
+  static pruneDisplayLog(displayLog: Array<DisplayLogEntry>, now: number): Array<DisplayLogEntry> {
+    return displayLog.filter(entry => entry.timestamp > now - DAY_IN_MS);
+  }
+}
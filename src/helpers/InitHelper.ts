@@ -13,7 +13,7 @@ import { AppConfig, AppUserConfig } from '../models/AppConfig';
 import { WindowEnvironmentKind } from '../models/WindowEnvironmentKind';
 import SubscriptionModalHost from '../modules/frames/SubscriptionModalHost';
 import Database from '../services/Database';
-import { getConsoleStyle, once } from '../utils';
+import { awaitUserConsent, getConsoleStyle, isUserConsentPending, once } from '../utils';
 import EventHelper from './EventHelper';
 import MainHelper from './MainHelper';
 import SubscriptionHelper from './SubscriptionHelper';
@@ -25,7 +25,7 @@ import { SubscriptionManager } from '../managers/SubscriptionManager';
 import { ServiceWorkerManager } from '../managers/ServiceWorkerManager';
 import Path from '../models/Path';
 import Context from '../models/Context';
-import { WorkerMessenger } from '../libraries/WorkerMessenger';
+import { WorkerMessenger, WorkerMessengerCommand } from '../libraries/WorkerMessenger';
 import { DynamicResourceLoader } from '../services/DynamicResourceLoader';
 import { PushRegistration } from '../models/PushRegistration';
 
@@ -83,6 +83,9 @@ export default class InitHelper {
         .then(registration => {
           if (registration && registration.active) {
             MainHelper.establishServiceWorkerChannel();
+            if (OneSignal.config.userConfig.quietHours) {
+              InitHelper.requestQuietHoursDigest().catch(e => log.warn('Failed to request the quiet hours digest:', e));
+            }
           }
         })
         .catch(e => {
@@ -139,6 +142,10 @@ export default class InitHelper {
 
     MainHelper.checkAndDoHttpPermissionRequest();
     OneSignal.context.cookieSyncer.install();
+    OneSignal.context.tagManager.install();
+    OneSignal.context.subscriptionManager.checkPushSubscriptionDrift().catch(e => {
+      log.warn('Failed to check the push subscription for changes:', e);
+    });
   }
 
   static installNativePromptPermissionChangedHook() {
@@ -154,6 +161,17 @@ export default class InitHelper {
     }
   }
 
+  /**
+   * Asks the service worker to show the notifications held during quiet hours, in case quiet hours ended since a push
+   * message last woke the worker.
+   */
+  static async requestQuietHoursDigest() {
+    const workerState = await OneSignal.context.serviceWorkerManager.getActiveState();
+    if (ServiceWorkerManager.isOneSignalWorker(workerState)) {
+      await OneSignal.context.workerMessenger.unicast(WorkerMessengerCommand.QuietHoursDigest);
+    }
+  }
+
   static saveInitOptions() {
     let opPromises = [];
     if (OneSignal.config.userConfig.persistNotification === false) {
@@ -179,6 +197,9 @@ export default class InitHelper {
     } else {
       opPromises.push(Database.put('Options', { key: `webhooks.cors`, value: false }));
     }
+    opPromises.push(
+      Database.put('Options', { key: `webhooks.secret`, value: OneSignal.config.webhookSecret || null })
+    );
 
     if (OneSignal.config.userConfig.notificationClickHandlerMatch) {
       opPromises.push(
@@ -191,6 +212,26 @@ export default class InitHelper {
       opPromises.push(Database.put('Options', { key: 'notificationClickHandlerMatch', value: 'exact' }));
     }
 
+    opPromises.push(Database.put('Options', { key: 'quietHours', value: OneSignal.config.userConfig.quietHours || null }));
+    opPromises.push(
+      Database.put('Options', { key: 'frequencyCaps', value: OneSignal.config.userConfig.frequencyCaps || null })
+    );
+    opPromises.push(
+      Database.put('Options', { key: 'languageFallbacks', value: OneSignal.config.userConfig.languageFallbacks || null })
+    );
+    opPromises.push(
+      Database.put('Options', { key: 'groupSummaryText', value: OneSignal.config.userConfig.groupSummaryText || null })
+    );
+    opPromises.push(
+      Database.put('Options', { key: 'inPageNavigation', value: OneSignal.config.userConfig.inPageNavigation === true })
+    );
+    opPromises.push(
+      Database.put('Options', {
+        key: 'notificationClickRoutes',
+        value: OneSignal.config.userConfig.notificationClickRoutes || null
+      })
+    );
+
     if (OneSignal.config.userConfig.notificationClickHandlerAction) {
       opPromises.push(
         Database.put('Options', {
@@ -274,6 +315,8 @@ export default class InitHelper {
   static async initSaveState(overridingPageTitle: string) {
     const appId = await MainHelper.getAppId();
     await Database.put('Ids', { type: 'appId', id: appId.value });
+    // The service worker needs the VAPID keys to resubscribe when the browser replaces the push subscription
+    await Database.setAppConfig(OneSignal.context.appConfig);
     const initialPageTitle = overridingPageTitle || document.title || 'Notification';
     await Database.put('Options', { key: 'pageTitle', value: initialPageTitle });
     log.info(`OneSignal: Set pageTitle to be '${initialPageTitle}'.`);
@@ -290,6 +333,18 @@ export default class InitHelper {
       OneSignal._sessionInitAlreadyRunning = true;
     }
 
+    if (isUserConsentPending()) {
+      /*
+        Prompts lead to OneSignal registering the user, so hold them until the user provides privacy consent. Init
+        still completes so public API calls are queued on consent rather than on init.
+       */
+      log.debug('OneSignal: Delaying prompts until the user provides privacy consent.');
+      OneSignal._sessionInitAlreadyRunning = false;
+      awaitUserConsent().then(() => InitHelper.sessionInit(options));
+      Event.trigger(OneSignal.EVENTS.SDK_INITIALIZED);
+      return;
+    }
+
     if (options.modalPrompt && options.fromRegisterFor) {
       /*
         Show the HTTPS fullscreen modal permission message.
@@ -353,6 +408,11 @@ export default class InitHelper {
   }
 
   public static async downloadAndMergeAppConfig(userConfig: AppUserConfig): Promise<AppConfig> {
+    if (isUserConsentPending()) {
+      // The app config is downloaded with JSONP rather than OneSignalApi.call(), so it has to wait for consent here
+      log.debug('OneSignal: Delaying the app config download until the user provides privacy consent.');
+      await awaitUserConsent();
+    }
     try {
       const serverConfig = await OneSignalApi.getAppConfig(new Uuid(userConfig.appId));
       const appConfig = InitHelper.getMergedUserServerAppConfig(userConfig, serverConfig);
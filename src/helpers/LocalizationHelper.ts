@@ -0,0 +1,63 @@
+import Environment from '../Environment';
+import { LocalizedString } from '../models/AppConfig';
+import Database from '../services/Database';
+
+export default class LocalizationHelper {
+  /**
+   * The languages tried when a notification isn't available in the user's language, if the site doesn't configure
+   * its own.
+   */
+  static DEFAULT_LANGUAGE_FALLBACKS = ['en'];
+
+  /**
+   * Returns the languages to display notifications in, most preferred first: the language set with
+   * OneSignal.setLanguage(), the browser's language, then the site's fallback languages.
+   */
+  static async getPreferredLanguages(): Promise<Array<string>> {
+    const language = await Database.getLanguage();
+    const fallbacks = await Database.get<Array<string>>('Options', 'languageFallbacks');
+    return [language, Environment.getLanguage()]
+      .concat(fallbacks || LocalizationHelper.DEFAULT_LANGUAGE_FALLBACKS)
+      .filter(preferredLanguage => !!preferredLanguage);
+  }
+
+  /**
+   * Returns the variant of the text in the most preferred language available. A language tag with a region (e.g.
+   * 'de-AT') also matches its base language ('de'). If no preferred language is available, the first variant is
+   * returned. Text that isn't localized is returned unchanged.
+   */
+  static selectVariant(text: LocalizedString, preferredLanguages: Array<string>): string {
+    if (!text || typeof text !== 'object') {
+      return text as string;
+    }
+    const variants = {};
+    for (let language of Object.keys(text)) {
+      variants[language.toLowerCase()] = text[language];
+    }
+    for (let preferredLanguage of preferredLanguages) {
+      const languageTag = preferredLanguage.toLowerCase();
+      const baseLanguage = languageTag.split('-')[0];
+      if (variants[languageTag] !== undefined) {
+        return variants[languageTag];
+      } else if (variants[baseLanguage] !== undefined) {
+        return variants[baseLanguage];
+      }
+    }
+    const languages = Object.keys(text);
+    return languages.length > 0 ? text[languages[0]] : undefined;
+  }
+
+  /**
+   * Returns the variant of the text in the user's preferred language, with each {name} placeholder replaced by the
+   * matching value.
+   */
+  static async localizeText(text: LocalizedString, values: { [name: string]: string | number }): Promise<string> {
+    const variant = LocalizationHelper.selectVariant(text, await LocalizationHelper.getPreferredLanguages());
+    if (!variant) {
+      return variant;
+    }
+    return variant.replace(/\{(\w+)\}/g, (placeholder, name) =>
+      values[name] !== undefined ? String(values[name]) : placeholder
+    );
+  }
+}
@@ -290,9 +290,46 @@ export default class MainHelper {
       }
     });
 
+    workerMessenger.on(WorkerMessengerCommand.NavigatePage, (data: any) => {
+      const navigationHandler = OneSignal._navigationHandler;
+      if (!navigationHandler) {
+        log.debug('Received in-page navigation request, but no navigation handler is set; the tab will be reloaded.');
+        return;
+      }
+      // Acknowledged before calling the handler, so a slow handler doesn't also get the tab reloaded. If the
+      // acknowledgement fails, the service worker reloads the tab instead.
+      workerMessenger.unicast(WorkerMessengerCommand.NavigatePageHandled, { id: data.id })
+        .then(() => {
+          try {
+            navigationHandler(data.url);
+          } catch (e) {
+            log.error('The navigation handler failed:', e);
+          }
+        })
+        .catch(e => log.error('Failed to acknowledge the in-page navigation request:', e));
+    });
+
+    workerMessenger.on(WorkerMessengerCommand.ActionButtonClicked, (data: any) => {
+      const actionButtonHandler = OneSignal._actionButtonHandlers[data.action];
+      if (!actionButtonHandler) {
+        log.debug(`Received a click on the ${data.action} action button, but no handler is registered for it.`);
+        return;
+      }
+      try {
+        actionButtonHandler(data);
+      } catch (e) {
+        log.error(`The ${data.action} action button handler failed:`, e);
+      }
+    });
+
     workerMessenger.on(WorkerMessengerCommand.NotificationDismissed, data => {
       Event.trigger(OneSignal.EVENTS.NOTIFICATION_DISMISSED, data);
     });
+
+    workerMessenger.on(WorkerMessengerCommand.SubscriptionChanged, async () => {
+      log.debug(location.origin, 'Received push subscription change event from service worker.');
+      await EventHelper.onPushSubscriptionReplaced();
+    });
   }
 
   static getPromptOptionsQueryString() {
@@ -0,0 +1,67 @@
+import * as log from 'loglevel';
+
+import { AppUserConfigNotificationClickRoute } from '../models/AppConfig';
+
+export default class NotificationClickRouteHelper {
+  /**
+   * Returns the first route matching the URL, or null if none match.
+   */
+  static findRoute(routes: Array<AppUserConfigNotificationClickRoute>,
+                   url: string): AppUserConfigNotificationClickRoute {
+    if (!routes) {
+      return null;
+    }
+    for (let route of routes) {
+      if (NotificationClickRouteHelper.matchesRoute(route, url)) {
+        return route;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns true if the URL matches every criterion the route specifies. A route without criteria matches every URL.
+   */
+  static matchesRoute(route: AppUserConfigNotificationClickRoute, url: string): boolean {
+    if (!url) {
+      return false;
+    }
+    if (route.pathPrefix) {
+      let path;
+      try {
+        path = new URL(url).pathname;
+      } catch (e) {
+        return false;
+      }
+      if (path.indexOf(route.pathPrefix) !== 0) {
+        return false;
+      }
+    }
+    if (route.glob && !NotificationClickRouteHelper.globToRegExp(route.glob).test(url)) {
+      return false;
+    }
+    if (route.regex) {
+      try {
+        if (!new RegExp(route.regex).test(url)) {
+          return false;
+        }
+      } catch (e) {
+        log.warn(`Ignoring the notification click route because ${route.regex} is not a valid regular expression.`);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Converts a glob, where * matches any characters and ? matches one character, into a regular expression matching
+   * the whole string.
+   */
+  static globToRegExp(glob: string): RegExp {
+    const pattern = glob
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+    return new RegExp(`^${pattern}$`);
+  }
+}
@@ -0,0 +1,49 @@
+import * as log from 'loglevel';
+
+import { AppUserConfigQuietHours } from '../models/AppConfig';
+
+export default class QuietHoursHelper {
+  /**
+   * Returns true if the time falls within the configured quiet hours, in the local time of the browser.
+   */
+  static isQuietTime(quietHours: AppUserConfigQuietHours, time: Date): boolean {
+    if (!quietHours) {
+      return false;
+    }
+    if (quietHours.days && quietHours.days.indexOf(time.getDay()) !== -1) {
+      return true;
+    }
+    if (!quietHours.start || !quietHours.end) {
+      return false;
+    }
+    const start = QuietHoursHelper.parseMinutesOfDay(quietHours.start);
+    const end = QuietHoursHelper.parseMinutesOfDay(quietHours.end);
+    if (start === null || end === null) {
+      log.warn(`Ignoring quiet hours because ${quietHours.start}-${quietHours.end} is not formatted as HH:MM-HH:MM.`);
+      return false;
+    }
+    const now = time.getHours() * 60 + time.getMinutes();
+    if (start <= end) {
+      return now >= start && now < end;
+    } else {
+      // Quiet hours span midnight (e.g. 22:00-07:00)
+      return now >= start || now < end;
+    }
+  }
+
+  /**
+   * Parses a time formatted as HH:MM into minutes since midnight. Returns null if the time is malformed.
+   */
+  static parseMinutesOfDay(time: string): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(String(time).trim());
+    if (!match) {
+      return null;
+    }
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 23 || minutes > 59) {
+      return null;
+    }
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,61 @@
+import * as log from 'loglevel';
+
+import { ServiceWorkerActiveState } from '../managers/ServiceWorkerManager';
+import { UserDataExport } from '../models/UserDataExport';
+import OneSignalApi from '../OneSignalApi';
+import Database from '../services/Database';
+import { unsubscribeFromPush, wipeIndexedDb, wipeServiceWorker } from '../utils';
+import SubscriptionHelper from './SubscriptionHelper';
+
+declare var OneSignal: any;
+
+export default class UserDataHelper {
+  static async exportUserData(): Promise<UserDataExport> {
+    const { appId } = await Database.getAppConfig();
+    const subscription = await Database.getSubscription();
+
+    let player = null;
+    if (subscription.deviceId && subscription.deviceId.value) {
+      player = await OneSignalApi.getPlayer(appId, subscription.deviceId);
+    }
+
+    return {
+      ids: await Database.get<object>('Ids') || {},
+      options: await Database.get<object>('Options') || {},
+      notificationOpened: await Database.get<object>('NotificationOpened') || {},
+      notificationHistory: await Database.getNotificationHistory(),
+      subscription: subscription.serialize(),
+      appState: await Database.getAppState(),
+      player: player
+    };
+  }
+
+  /**
+   * Unsubscribes from push, deletes the player on OneSignal's server, wipes IndexedDB, and unregisters OneSignal's
+   * service worker. A third-party service worker is left installed.
+   *
+   * On HTTP sites, the push subscription and IndexedDB data live on the OneSignal subdomain and are erased there; its
+   * service worker can't be unregistered from the site's origin.
+   */
+  static async eraseUserData(): Promise<void> {
+    const { appId } = await Database.getAppConfig();
+    const { deviceId } = await Database.getSubscription();
+
+    await unsubscribeFromPush();
+
+    if (deviceId && deviceId.value) {
+      await OneSignalApi.deletePlayer(appId, deviceId);
+    } else {
+      log.debug('Not deleting the player on OneSignal because the user was never registered.');
+    }
+
+    await wipeIndexedDb();
+
+    if (!SubscriptionHelper.isUsingSubscriptionWorkaround()) {
+      const workerState = await OneSignal.context.serviceWorkerManager.getActiveState();
+      if (workerState === ServiceWorkerActiveState.WorkerA || workerState === ServiceWorkerActiveState.WorkerB) {
+        await wipeServiceWorker();
+      }
+    }
+  }
+}
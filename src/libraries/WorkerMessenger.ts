@@ -1,7 +1,7 @@
 import { InvalidArgumentError, InvalidArgumentReason } from '../errors/InvalidArgumentError';
 import { InvalidStateError, InvalidStateReason } from '../errors/InvalidStateError';
 import SdkEnvironment from '../managers/SdkEnvironment';
-import { ServiceWorkerActiveState } from '../managers/ServiceWorkerManager';
+import { ServiceWorkerManager } from '../managers/ServiceWorkerManager';
 import Context from '../models/Context';
 import { WindowEnvironmentKind } from '../models/WindowEnvironmentKind';
 import * as log from 'loglevel';
@@ -18,7 +18,12 @@ export enum WorkerMessengerCommand {
   NotificationDisplayed = 'notification.displayed',
   NotificationClicked = 'notification.clicked',
   NotificationDismissed = 'notification.dismissed',
+  ActionButtonClicked = 'notification.actionButton',
   RedirectPage = 'command.redirect',
+  NavigatePage = 'command.navigate',
+  NavigatePageHandled = 'command.navigate.handled',
+  SubscriptionChanged = 'subscription.changed',
+  QuietHoursDigest = 'quietHours.digest',
 }
 
 export interface WorkerMessengerMessage {
@@ -147,6 +152,38 @@ export class WorkerMessenger {
     }
   }
 
+  /**
+   * Asks the service worker for its OneSignal worker version, without waiting for the worker to be recognized as one
+   * of ours or to control the page. Used in compose mode to recognize a site's own worker that imports OneSignal's
+   * worker script.
+   *
+   * Resolves to null if there's no worker or the worker doesn't reply within the timeout.
+   */
+  async queryWorkerVersion(worker: ServiceWorker, timeout: number): Promise<number> {
+    if (!worker) {
+      return null;
+    }
+    return new Promise<number>(resolve => {
+      let timeoutId;
+      const onMessage = (event: ServiceWorkerMessageEvent) => {
+        const data: WorkerMessengerMessage = event.data;
+        if (data && data.command === WorkerMessengerCommand.WorkerVersion) {
+          clearTimeout(timeoutId);
+          navigator.serviceWorker.removeEventListener('message', onMessage);
+          resolve(data.payload as number);
+        }
+      };
+      timeoutId = setTimeout(() => {
+        navigator.serviceWorker.removeEventListener('message', onMessage);
+        resolve(null);
+      }, timeout);
+      navigator.serviceWorker.addEventListener('message', onMessage);
+      worker.postMessage({
+        command: WorkerMessengerCommand.WorkerVersion
+      });
+    });
+  }
+
   /**
    * Due to https://github.com/w3c/ServiceWorker/issues/1156, listen() must
    * synchronously add self.addEventListener('message') if we are running in the
@@ -295,8 +332,7 @@ export class WorkerMessenger {
       return !!self.registration.active;
     } else {
       const workerState = await this.context.serviceWorkerManager.getActiveState();
-      return workerState === ServiceWorkerActiveState.WorkerA ||
-        workerState === ServiceWorkerActiveState.WorkerB;
+      return ServiceWorkerManager.isOneSignalWorker(workerState);
     }
   }
 
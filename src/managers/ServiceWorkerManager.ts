@@ -31,6 +31,12 @@ export enum ServiceWorkerActiveState {
    * provided by user config).
    */
   ThirdParty = '3rd Party',
+  /**
+   * In compose mode, the site's own service worker is active and imports
+   * OneSignal's worker script. It is recognized by its configured file name or
+   * by replying to a worker version query.
+   */
+  Composite = 'Composite',
   /**
    * No service worker is installed.
    */
@@ -64,16 +70,54 @@ export interface ServiceWorkerManagerConfig {
    * This is currently always "/".
    */
   registrationOptions: { scope: string };
+  /**
+   * If true, the site's own service worker imports OneSignal's worker script.
+   * Third party workers are never unregistered and composite workers are never
+   * replaced.
+   */
+  compose?: boolean;
+  /**
+   * In compose mode, the path and filename of the site's own service worker
+   * (e.g. '/sw.js'). Optional; without it, composite workers are recognized by
+   * asking the worker for its version.
+   */
+  composedWorkerPath?: Path;
 }
 
 export class ServiceWorkerManager {
 
+  /**
+   * How long to wait for a third party worker to reply to a version query
+   * before deciding it doesn't import OneSignal's worker script.
+   */
+  public static COMPOSITE_WORKER_QUERY_TIMEOUT = 1000;
+
   private context: Context;
   private config: ServiceWorkerManagerConfig;
+  /**
+   * Whether each worker script URL imports OneSignal's worker script, so each
+   * worker is only asked once per page view instead of waiting for the query to
+   * time out on every check. Cleared when the page's controlling worker changes,
+   * since a worker that didn't reply may have been updated or started since.
+   */
+  private compositeWorkerQueries: { [scriptUrl: string]: boolean };
+  private clearsCompositeWorkerQueriesOnControllerChange: boolean;
 
   constructor(context: Context, config: ServiceWorkerManagerConfig) {
     this.context = context;
     this.config = config;
+    this.compositeWorkerQueries = {};
+    this.clearsCompositeWorkerQueriesOnControllerChange = false;
+  }
+
+  /**
+   * Returns true if the worker state is one of the workers running OneSignal's
+   * worker script.
+   */
+  public static isOneSignalWorker(workerState: ServiceWorkerActiveState): boolean {
+    return workerState === ServiceWorkerActiveState.WorkerA ||
+      workerState === ServiceWorkerActiveState.WorkerB ||
+      workerState === ServiceWorkerActiveState.Composite;
   }
 
   public async getActiveState(): Promise<ServiceWorkerActiveState> {
@@ -151,11 +195,37 @@ export class ServiceWorkerManager {
       return ServiceWorkerActiveState.WorkerA;
     } else if (new Path(workerScriptPath).getFileName() == this.config.workerBPath.getFileName()) {
       return ServiceWorkerActiveState.WorkerB;
+    } else if (this.config.compose && await this.isCompositeWorker(workerRegistration.active)) {
+      return ServiceWorkerActiveState.Composite;
     } else {
       return ServiceWorkerActiveState.ThirdParty;
     }
   }
 
+  /**
+   * Returns true if the site's own worker imports OneSignal's worker script.
+   */
+  private async isCompositeWorker(worker: ServiceWorker): Promise<boolean> {
+    if (this.config.composedWorkerPath) {
+      const workerScriptPath = new URL(worker.scriptURL).pathname;
+      return new Path(workerScriptPath).getFileName() == this.config.composedWorkerPath.getFileName();
+    }
+    if (this.compositeWorkerQueries[worker.scriptURL] === undefined) {
+      const workerVersion = await this.context.workerMessenger.queryWorkerVersion(
+        worker,
+        ServiceWorkerManager.COMPOSITE_WORKER_QUERY_TIMEOUT
+      );
+      this.compositeWorkerQueries[worker.scriptURL] = workerVersion !== null && workerVersion !== undefined;
+      if (!this.clearsCompositeWorkerQueriesOnControllerChange) {
+        this.clearsCompositeWorkerQueriesOnControllerChange = true;
+        navigator.serviceWorker.addEventListener('controllerchange', () => {
+          this.compositeWorkerQueries = {};
+        });
+      }
+    }
+    return this.compositeWorkerQueries[worker.scriptURL];
+  }
+
   public async getWorkerVersion(): Promise<number> {
     const workerState = await this.getActiveState();
 
@@ -173,17 +243,13 @@ export class ServiceWorkerManager {
 
   async shouldInstallWorker(): Promise<boolean> {
     const workerState = await this.getActiveState();
-
-    if (workerState !== ServiceWorkerActiveState.WorkerA && workerState !== ServiceWorkerActiveState.WorkerB) {
-      return true;
-    }
-    return false;
+    return !ServiceWorkerManager.isOneSignalWorker(workerState);
   }
 
   async subscribeForPushNotifications(): Promise<Subscription> {
     const workerState = await this.getActiveState();
 
-    if (workerState !== ServiceWorkerActiveState.WorkerA && workerState !== ServiceWorkerActiveState.WorkerB) {
+    if (!ServiceWorkerManager.isOneSignalWorker(workerState)) {
       throw new InvalidStateError(InvalidStateReason.ServiceWorkerNotActivated);
     }
     return new Promise<Subscription>(resolve => {
@@ -205,6 +271,14 @@ export class ServiceWorkerManager {
     }
 
     const workerState = await this.getActiveState();
+    if (workerState === ServiceWorkerActiveState.Composite) {
+      /*
+        The site's own worker imports OneSignal's worker script and is updated
+        by the site. Re-registering would replace the site's worker with ours.
+       */
+      log.debug(`[Service Worker Update] Not updating service worker, the site's composite worker is active.`);
+      return;
+    }
     log.info(`[Service Worker Update] Checking service worker version...`);
     let workerVersion;
     try {
@@ -306,13 +380,33 @@ export class ServiceWorkerManager {
    * Depending on the existing worker, the alternate swap worker may be
    * installed or, for 3rd party workers, the existing worker may be uninstalled
    * before installing ours.
+   *
+   * In compose mode, 3rd party workers are never uninstalled. The site's own
+   * worker is installed instead of ours if its path is configured; otherwise
+   * ours is only installed if no worker is installed yet.
    */
   private async installAlternatingWorker() {
     const workerState = await this.getActiveState();
 
+    if (this.config.compose &&
+      (workerState === ServiceWorkerActiveState.ThirdParty || workerState === ServiceWorkerActiveState.None)) {
+      if (this.config.composedWorkerPath) {
+        const composedWorkerPath = this.config.composedWorkerPath.getFullPath();
+        log.info(`[Service Worker Installation] Installing composite service worker ${composedWorkerPath}.`);
+        await navigator.serviceWorker.register(composedWorkerPath, this.config.registrationOptions);
+        log.debug(`[Service Worker Installation] Service worker installed.`);
+        return;
+      } else if (workerState === ServiceWorkerActiveState.ThirdParty) {
+        log.error(`[Service Worker Installation] Not replacing the site's service worker in compose mode. The` +
+          ` site's worker must import OneSignal's worker script (${this.config.workerAPath.getFileName()}).`);
+        throw new InvalidStateError(InvalidStateReason.ServiceWorkerNotActivated);
+      }
+      // Without the site's worker path, install our own worker if no worker is installed yet
+    }
+
     if (workerState === ServiceWorkerActiveState.ThirdParty) {
       /*
-         Always unregister 3rd party service workers.
+         Outside compose mode, always unregister 3rd party service workers.
 
          Unregistering unsubscribes the existing push subscription and allows us
          to register a new push subscription. This takes care of possible previous mismatched sender IDs
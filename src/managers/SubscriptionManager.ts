@@ -26,6 +26,10 @@ import { Subscription } from '../models/Subscription';
 import { UnsubscriptionStrategy } from '../models/UnsubscriptionStrategy';
 import NotImplementedError from '../errors/NotImplementedError';
 import { base64ToUint8Array } from '../utils/Encoding';
+import { unsubscribeFromPush } from '../utils';
+import { SubscriptionState } from '../models/SubscriptionState';
+import { ServiceWorkerActiveState } from './ServiceWorkerManager';
+import SubscriptionHelper from '../helpers/SubscriptionHelper';
 
 export interface SubscriptionManagerConfig {
   safariWebId: string;
@@ -110,22 +114,97 @@ export class SubscriptionManager {
 
   public async unsubscribe(strategy: UnsubscriptionStrategy) {
     if (strategy === UnsubscriptionStrategy.DestroySubscription) {
-      throw new NotImplementedError();
+      await this.destroySubscription();
     } else if (strategy === UnsubscriptionStrategy.MarkUnsubscribed) {
-      if (SdkEnvironment.getWindowEnv() === WindowEnvironmentKind.ServiceWorker) {
-        const { deviceId } = await Database.getSubscription();
+      await this.markUnsubscribed();
+    } else {
+      throw new NotImplementedError();
+    }
+
+    if (SdkEnvironment.getWindowEnv() === WindowEnvironmentKind.Host) {
+      /*
+        The service worker and OneSignal's frames have no page listeners to notify; pages pick up the change the next
+        time they compare the stored subscription state.
+       */
+      EventHelper.onInternalSubscriptionSet(strategy === UnsubscriptionStrategy.MarkUnsubscribed);
+      await EventHelper.checkAndTriggerSubscriptionChanged();
+    }
+  }
+
+  /**
+   * Keeps the push subscription but mutes the player, so the user can be resubscribed without a new permission prompt.
+   */
+  private async markUnsubscribed() {
+    const { deviceId } = await Database.getSubscription();
+    if (deviceId && deviceId.value) {
+      await OneSignalApi.updatePlayer(this.context.appConfig.appId, deviceId, {
+        notification_types: SubscriptionStateKind.MutedByApi
+      });
+    } else {
+      log.debug('[Subscription Manager] Not muting the player because the user was never registered.');
+    }
+
+    await Database.put('Options', { key: 'optedOut', value: true });
+  }
+
+  /**
+   * Removes the browser's push subscription, mutes the player, and forgets the stored subscription so that
+   * subscribing again creates a new push subscription.
+   */
+  private async destroySubscription() {
+    const { deviceId } = await Database.getSubscription();
+
+    await unsubscribeFromPush();
+
+    if (deviceId && deviceId.value) {
+      await OneSignalApi.updatePlayer(this.context.appConfig.appId, deviceId, {
+        notification_types: SubscriptionStateKind.MutedByApi
+      });
+    } else {
+      log.debug('[Subscription Manager] Not muting the player because the user was never registered.');
+    }
+
+    await Database.clearSubscription();
+  }
+
+  /**
+   * Returns a snapshot of the user's subscription, comparing the stored subscription against the browser's live push
+   * subscription where it's reachable. Only callable from the page.
+   */
+  public async getSubscriptionState(): Promise<SubscriptionState> {
+    const { deviceId, subscriptionToken, optedOut } = await Database.getSubscription();
+    const permission: NotificationPermission = await OneSignal.getNotificationPermission();
+    const isPushEnabled: boolean = await OneSignal.isPushNotificationsEnabled();
 
-        await OneSignalApi.updatePlayer(this.context.appConfig.appId, deviceId, {
-          notification_types: SubscriptionStateKind.MutedByApi
-        });
+    let serviceWorkerActiveState = ServiceWorkerActiveState.Indeterminate;
+    let tokenMatchesPushSubscription: boolean = null;
 
-        await Database.put('Options', { key: 'optedOut', value: true });
+    if (this.isSafari()) {
+      const { deviceToken } = window.safari.pushNotification.permission(this.config.safariWebId);
+      tokenMatchesPushSubscription = (deviceToken || null) === (subscriptionToken || null);
+    } else if (Environment.supportsServiceWorkers() &&
+               !SubscriptionHelper.isUsingSubscriptionWorkaround() &&
+               SdkEnvironment.getWindowEnv() !== WindowEnvironmentKind.OneSignalProxyFrame &&
+               !await SubscriptionHelper.hasInsecureParentOrigin()) {
+      serviceWorkerActiveState = await this.context.serviceWorkerManager.getActiveState();
+      const workerRegistration = await navigator.serviceWorker.getRegistration();
+      const pushSubscription = workerRegistration ? await workerRegistration.pushManager.getSubscription() : null;
+      if (pushSubscription) {
+        tokenMatchesPushSubscription = new URL(pushSubscription.endpoint).toString() === subscriptionToken;
       } else {
-        throw new NotImplementedError();
+        tokenMatchesPushSubscription = !subscriptionToken;
       }
-    } else {
-      throw new NotImplementedError();
     }
+
+    return {
+      permission,
+      serviceWorkerActiveState,
+      isPushEnabled,
+      deviceId: deviceId ? deviceId.value : null,
+      subscriptionToken: subscriptionToken || null,
+      optedOut: !!optedOut,
+      tokenMatchesPushSubscription
+    };
   }
 
   /**
@@ -140,6 +219,7 @@ export class SubscriptionManager {
     let pushRegistration = new PushRegistration();
 
     pushRegistration.appId = this.config.appId;
+    pushRegistration.language = (await Database.getLanguage()) || pushRegistration.language;
 
     if (this.isSafari()) {
       pushRegistration.deliveryPlatform = DeliveryPlatformKind.Safari;
@@ -154,14 +234,14 @@ export class SubscriptionManager {
     pushRegistration.subscription = pushSubscription;
 
     let newDeviceId: Uuid;
+    const { deviceId: existingDeviceId } = await Database.getSubscription();
     if (await this.isAlreadyRegisteredWithOneSignal()) {
-      const { deviceId } = await Database.getSubscription();
       if (pushSubscription.isNewSubscription()) {
-        newDeviceId = await OneSignalApi.updateUserSession(deviceId, pushRegistration);
+        newDeviceId = await OneSignalApi.updateUserSession(existingDeviceId, pushRegistration);
         log.info("Updated the subscriber's OneSignal session:", pushRegistration);
       } else {
         // The subscription hasn't changed; don't register with OneSignal and reuse the existing device ID
-        newDeviceId = deviceId;
+        newDeviceId = existingDeviceId;
         log.debug(
           'The existing push subscription was resubscribed, but not registering with OneSignal because the new subscription is identical.'
         );
@@ -171,6 +251,11 @@ export class SubscriptionManager {
       newDeviceId = id;
       log.info("Subscribed to web push and registered with OneSignal:", pushRegistration);
     }
+
+    if (newDeviceId && newDeviceId.value && (!existingDeviceId.value || existingDeviceId.value !== newDeviceId.value)) {
+      await this.associateExternalUserId(newDeviceId);
+    }
+
     if (SdkEnvironment.getWindowEnv() !== WindowEnvironmentKind.ServiceWorker) {
       Event.trigger(OneSignal.EVENTS.REGISTERED);
     }
@@ -182,6 +267,8 @@ export class SubscriptionManager {
       subscription.subscriptionToken = pushSubscription.safariDeviceToken;
     } else {
       subscription.subscriptionToken = pushSubscription.w3cEndpoint.toString();
+      subscription.w3cP256dh = pushSubscription.w3cP256dh;
+      subscription.w3cAuth = pushSubscription.w3cAuth;
     }
 
     await Database.setSubscription(subscription);
@@ -189,6 +276,75 @@ export class SubscriptionManager {
     return subscription;
   }
 
+  /**
+   * Compares the browser's push subscription with the stored one at session start. The browser can rotate the
+   * subscription's endpoint or keys, or drop it entirely when permission is revoked, without any event reaching the
+   * page. A rotated subscription is re-registered with OneSignal; a missing one mutes the player.
+   */
+  public async checkPushSubscriptionDrift(): Promise<void> {
+    if (this.isSafari() ||
+        !Environment.supportsServiceWorkers() ||
+        SubscriptionHelper.isUsingSubscriptionWorkaround() ||
+        await SubscriptionHelper.hasInsecureParentOrigin()) {
+      // The browser's push subscription isn't reachable from this page
+      return;
+    }
+
+    const subscription = await Database.getSubscription();
+    if (!subscription.deviceId.value || !subscription.subscriptionToken || subscription.optedOut) {
+      return;
+    }
+
+    const permission: NotificationPermission = await OneSignal.getNotificationPermission();
+    const workerRegistration = await navigator.serviceWorker.getRegistration();
+    let pushSubscription: PushSubscription = null;
+    if (permission === NotificationPermission.Granted && workerRegistration) {
+      pushSubscription = await workerRegistration.pushManager.getSubscription();
+    }
+
+    if (!pushSubscription) {
+      log.info(`[Subscription Manager] The push subscription is gone (notification permission: ${permission}). ` +
+               `Marking the player unsubscribed.`);
+      await OneSignalApi.updatePlayer(this.config.appId, subscription.deviceId, {
+        notification_types: SubscriptionStateKind.MutedByApi
+      });
+      await Database.clearSubscriptionToken();
+      await EventHelper.checkAndTriggerSubscriptionChanged();
+      return;
+    }
+
+    const livePushSubscription = new RawPushSubscription();
+    livePushSubscription.setFromW3cSubscription(pushSubscription);
+    const isEndpointUnchanged = livePushSubscription.w3cEndpoint.toString() === subscription.subscriptionToken;
+    // Subscriptions stored before keys were recorded only have their endpoint compared
+    const areKeysUnchanged = (!subscription.w3cP256dh || subscription.w3cP256dh === livePushSubscription.w3cP256dh) &&
+                             (!subscription.w3cAuth || subscription.w3cAuth === livePushSubscription.w3cAuth);
+    if (isEndpointUnchanged && areKeysUnchanged) {
+      return;
+    }
+
+    log.info('[Subscription Manager] The push subscription changed since it was registered. Updating OneSignal.');
+    await this.registerSubscriptionWithOneSignal(livePushSubscription);
+    await EventHelper.checkAndTriggerSubscriptionChanged();
+  }
+
+  /**
+   * A newly created device ID has no external user ID on OneSignal's side, so the stored alias (if any) is re-sent.
+   */
+  private async associateExternalUserId(deviceId: Uuid) {
+    const externalUserId = await Database.getExternalUserId();
+    if (!externalUserId) {
+      return;
+    }
+    try {
+      await OneSignalApi.updatePlayer(this.config.appId, deviceId, {
+        external_user_id: externalUserId
+      });
+    } catch (e) {
+      log.warn('Failed to re-send the external user ID for the new device ID:', e);
+    }
+  }
+
   private async isAlreadyRegisteredWithOneSignal() {
     const { deviceId } = await Database.getSubscription();
     return !!deviceId.value;
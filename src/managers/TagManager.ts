@@ -0,0 +1,241 @@
+import * as log from 'loglevel';
+
+import Context from '../models/Context';
+import { TagOperation } from '../models/TagOperation';
+import { Uuid } from '../models/Uuid';
+import OneSignalApi from '../OneSignalApi';
+import Database from '../services/Database';
+
+interface PendingTagWrite {
+  resolve: () => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Sends tag writes to OneSignal through a queue persisted in IndexedDB, so writes made while offline or before the
+ * user is registered survive page reloads and are sent once a device ID and network connection are available.
+ *
+ * Writes to the same tag key are coalesced while pending; only the most recent value is sent. Tags stored on OneSignal
+ * are cached locally, so reads can be answered without a request and writes of unchanged values are skipped.
+ */
+export class TagManager {
+
+  /**
+   * The maximum number of tags sent in a single player update.
+   */
+  public static BATCH_SIZE = 100;
+
+  private context: Context;
+  private flushing: boolean;
+  private flushRequested: boolean;
+  private pendingWrites: Array<PendingTagWrite>;
+
+  constructor(context: Context) {
+    this.context = context;
+    this.flushing = false;
+    this.flushRequested = false;
+    this.pendingWrites = [];
+  }
+
+  /**
+   * Sends any tag writes queued by a previous page view, and sends future writes once the browser comes back online
+   * or the user registers with OneSignal.
+   */
+  install() {
+    if (typeof window !== "undefined" && window.addEventListener) {
+      window.addEventListener('online', () => this.flush());
+    }
+    OneSignal.on(OneSignal.EVENTS.REGISTERED, () => this.flush());
+    this.flush();
+  }
+
+  /**
+   * Queues the tags to be sent and resolves once OneSignal has acknowledged them. Rejects if OneSignal rejects the
+   * update; stays pending while offline, not yet registered or unable to reach OneSignal.
+   */
+  async sendTags(tags: Object): Promise<void> {
+    const changedTags = await this.getChangedTags(tags);
+    if (Object.keys(changedTags).length === 0) {
+      log.debug('Not sending tags because their values are unchanged.');
+      return;
+    }
+    await Database.putTagOperations(changedTags);
+    const acknowledged = new Promise<void>((resolve, reject) => {
+      this.pendingWrites.push({ resolve, reject });
+    });
+    this.flush();
+    return await acknowledged;
+  }
+
+  /**
+   * Returns the player's tags from the local cache, fetching them from OneSignal if they aren't cached yet or a refresh
+   * is requested.
+   */
+  async getTags(appId: Uuid, deviceId: Uuid, refresh: boolean): Promise<Object> {
+    if (!refresh) {
+      const cachedTags = await Database.getCachedTags(deviceId);
+      if (cachedTags) {
+        return cachedTags;
+      }
+    }
+    const { tags } = await OneSignalApi.getPlayer(appId, deviceId);
+    await Database.setCachedTags(deviceId, tags || {});
+    return tags;
+  }
+
+  /**
+   * Returns the queued tag writes not yet acknowledged by OneSignal, keyed by tag key.
+   */
+  async getPendingOperations(): Promise<Object> {
+    return TagManager.toTags(await Database.getTagOperations());
+  }
+
+  /**
+   * Sends all queued tag writes. Calls made while a flush is in progress schedule one more pass once it finishes.
+   * Never rejects; if the queue can't be read, the callers waiting on their writes are rejected instead.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushRequested = true;
+      return;
+    }
+    this.flushing = true;
+    try {
+      do {
+        this.flushRequested = false;
+        await this.sendPendingOperations();
+      } while (this.flushRequested);
+    } catch (e) {
+      log.error('Failed to send queued tags:', e);
+      const writes = this.pendingWrites;
+      this.pendingWrites = [];
+      for (let write of writes) {
+        write.reject(e);
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async sendPendingOperations() {
+    if (typeof navigator !== "undefined" && navigator.onLine === false) {
+      log.debug('Not sending queued tags because the browser is offline.');
+      return;
+    }
+    const { deviceId } = await Database.getSubscription();
+    if (!deviceId || !deviceId.value) {
+      log.debug('Not sending queued tags until the user is registered.');
+      return;
+    }
+    const { appId } = await Database.getAppConfig();
+    const operations = await Database.getTagOperations();
+    const writes = this.pendingWrites;
+    this.pendingWrites = [];
+
+    try {
+      for (let i = 0; i < operations.length; i += TagManager.BATCH_SIZE) {
+        const batch = operations.slice(i, i + TagManager.BATCH_SIZE);
+        await OneSignalApi.updatePlayer(appId, deviceId, {
+          tags: TagManager.toTags(batch)
+        });
+        for (let operation of batch) {
+          await Database.removeTagOperation(operation);
+        }
+        await TagManager.updateCachedTags(deviceId, batch);
+      }
+    } catch (e) {
+      if (!TagManager.isRejectedUpdate(e)) {
+        log.debug('Failed to send queued tags, retrying on the next flush:', e);
+        this.pendingWrites = writes.concat(this.pendingWrites);
+        return;
+      }
+      /*
+        OneSignal rejected the update. Retrying the same tags will keep failing, so drop them and surface the
+        error to the callers waiting on them.
+       */
+      log.error('OneSignal rejected the queued tags:', e);
+      for (let write of writes) {
+        write.reject(e);
+      }
+      for (let operation of operations) {
+        await Database.removeTagOperation(operation);
+      }
+      return;
+    }
+    for (let write of writes) {
+      write.resolve();
+    }
+  }
+
+  /**
+   * Returns the subset of tags that differ from the cached tags. Tags with a queued write are always included, since
+   * the queued value may differ from the cached one. Without a cache, all tags are returned.
+   */
+  private async getChangedTags(tags: Object): Promise<Object> {
+    const { deviceId } = await Database.getSubscription();
+    const cachedTags = await Database.getCachedTags(deviceId);
+    if (!cachedTags) {
+      return tags;
+    }
+    const pendingTags = await this.getPendingOperations();
+    const changedTags = {};
+    for (let key of Object.keys(tags)) {
+      if (pendingTags.hasOwnProperty(key) || !TagManager.isCachedValue(cachedTags[key], tags[key])) {
+        changedTags[key] = tags[key];
+      }
+    }
+    return changedTags;
+  }
+
+  /**
+   * Applies acknowledged tag writes to the cache, if the player's tags are cached.
+   */
+  private static async updateCachedTags(deviceId: Uuid, operations: Array<TagOperation>) {
+    const cachedTags = await Database.getCachedTags(deviceId);
+    if (!cachedTags) {
+      return;
+    }
+    for (let operation of operations) {
+      if (operation.value === '') {
+        delete cachedTags[operation.key];
+      } else {
+        cachedTags[operation.key] = TagManager.toCachedValue(operation.value);
+      }
+    }
+    await Database.setCachedTags(deviceId, cachedTags);
+  }
+
+  /**
+   * OneSignal stores every tag value as a string.
+   */
+  private static toCachedValue(value: any): string {
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  private static isCachedValue(cachedValue: string, value: any): boolean {
+    if (value === '') {
+      return cachedValue === undefined;
+    }
+    return cachedValue !== undefined && cachedValue === TagManager.toCachedValue(value);
+  }
+
+  private static toTags(operations: Array<TagOperation>): Object {
+    const tags = {};
+    for (let operation of operations) {
+      tags[operation.key] = operation.value;
+    }
+    return tags;
+  }
+
+  /**
+   * OneSignalApi rejects with the parsed response body, listing the errors, when OneSignal returns a 4xx for the
+   * update. Network errors (a TypeError from fetch()), 5xx responses (a ServiceUnavailableError) and unparseable
+   * responses (a SyntaxError from response.json()) may succeed on a retry.
+   */
+  private static isRejectedUpdate(error: any): boolean {
+    return !!error && !(error instanceof Error) && !!error.errors;
+  }
+}
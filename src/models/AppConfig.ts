@@ -28,6 +28,13 @@ export class AppConfig implements Serializable {
    * authentication, and so all apps share an identification key.
    */
   onesignalVapidPublicKey?: string;
+  /**
+   * If set on the dashboard, each CORS webhook request is signed with an
+   * HMAC-SHA256 of its body using this secret. The secret is downloaded by
+   * every visitor's browser, so the signature only tells the site the request
+   * was made by a OneSignal worker; it isn't an authentication boundary.
+   */
+  webhookSecret?: string;
   userConfig?: AppUserConfig;
 
   serialize(): object {
@@ -38,6 +45,8 @@ export class AppConfig implements Serializable {
       cookieSyncEnabled: this.cookieSyncEnabled,
       safariWebId: this.safariWebId,
       vapidPublicKey: this.vapidPublicKey,
+      onesignalVapidPublicKey: this.onesignalVapidPublicKey,
+      webhookSecret: this.webhookSecret,
       userConfig: this.userConfig
     };
   }
@@ -50,6 +59,8 @@ export class AppConfig implements Serializable {
     appConfig.cookieSyncEnabled = bundle.cookieSyncEnabled;
     appConfig.safariWebId = bundle.safariWebId;
     appConfig.vapidPublicKey = bundle.vapidPublicKey;
+    appConfig.onesignalVapidPublicKey = bundle.onesignalVapidPublicKey;
+    appConfig.webhookSecret = bundle.webhookSecret;
     appConfig.userConfig = bundle.userConfig;
     return appConfig;
   }
@@ -62,6 +73,16 @@ export interface AppUserConfig {
   serviceWorkerPath?: string;
   serviceWorkerUpdaterPath?: string;
   serviceWorkerParam?: any;
+  /**
+   * Runs OneSignal alongside the site's own service worker instead of replacing it. The site's worker must import
+   * OneSignal's worker script with importScripts().
+   */
+  serviceWorkerCompose?: boolean;
+  /**
+   * In compose mode, the path to the site's own service worker script (e.g. '/sw.js'). The worker is registered if no
+   * worker is installed yet, and is recognized without asking it for its OneSignal version.
+   */
+  serviceWorkerComposedPath?: string;
   subdomainName?: string;
   httpPermissionRequest?: AppUserConfigHttpPermissionRequest;
   promptOptions?: AppUserConfigPromptOptions;
@@ -69,9 +90,42 @@ export interface AppUserConfig {
   notifyButton?: AppUserConfigNotifyButton;
   persistNotification?: boolean;
   webhooks?: AppUserConfigWebhooks;
+  /**
+   * Holds notifications received during these hours, and shows them as a single digest once quiet hours end.
+   */
+  quietHours?: AppUserConfigQuietHours;
+  /**
+   * Limits how many notifications are displayed, as a last guard against users receiving too many notifications.
+   */
+  frequencyCaps?: AppUserConfigFrequencyCaps;
+  /**
+   * The languages to try, in order, when a notification isn't available in the user's language. Defaults to ['en'].
+   */
+  languageFallbacks?: Array<string>;
+  /**
+   * The body of the summary notification replacing a group's notifications, where {count} is replaced by the number
+   * of notifications and {group} by the group's name. Defaults to '{count} new messages from {group}'.
+   */
+  groupSummaryText?: LocalizedString;
   notificationClickHandlerMatch?: object;
   notificationClickHandlerAction?: object;
+  /**
+   * Decides how clicking a notification opens its URL, overriding notificationClickHandlerMatch and
+   * notificationClickHandlerAction. The first route matching the notification's URL is used.
+   */
+  notificationClickRoutes?: Array<AppUserConfigNotificationClickRoute>;
+  /**
+   * If true, a notification click navigating an open tab asks the page's navigation handler (set with
+   * OneSignal.setNavigationHandler()) to change the page, instead of reloading the tab. Tabs without a navigation
+   * handler are reloaded as usual.
+   */
+  inPageNavigation?: boolean;
   allowLocalhostAsSecureOrigin?: boolean;
+  /**
+   * Holds OneSignal network requests, the cookie sync pixel, and automatic prompts until
+   * OneSignal.provideUserConsent(true) is called.
+   */
+  requiresUserPrivacyConsent?: boolean;
 }
 
 export interface AppUserConfigHttpPermissionRequest {
@@ -98,10 +152,15 @@ export interface AppUserConfigPromptOptions {
   showCredit: string;
 }
 
+/**
+ * Text in a single language, or in several languages keyed by language code (e.g. { en: 'Hello', de: 'Hallo' }).
+ */
+export type LocalizedString = string | { [language: string]: string };
+
 export interface AppUserConfigWelcomeNotification {
   disable: boolean;
-  title: string;
-  message: string;
+  title: LocalizedString;
+  message: LocalizedString;
 }
 
 export interface AppUserConfigNotifyButton {
@@ -141,10 +200,86 @@ export interface AppUserConfigNotifyButton {
   };
 }
 
+export interface AppUserConfigQuietHours {
+  /**
+   * The time quiet hours begin each day in the user's local time, formatted as HH:MM (e.g. '22:00').
+   */
+  start?: string;
+  /**
+   * The time quiet hours end each day in the user's local time, formatted as HH:MM (e.g. '07:00'). Quiet hours span
+   * midnight if this is earlier than the start time.
+   */
+  end?: string;
+  /**
+   * Days of the week quiet all day long, from 0 (Sunday) to 6 (Saturday). For example, [0, 6] for weekends.
+   */
+  days?: Array<number>;
+  /**
+   * The body of the digest of held notifications, where {count} is replaced by the number of notifications. Defaults
+   * to 'You have {count} new notifications.'
+   */
+  summaryText?: LocalizedString;
+}
+
+export interface AppUserConfigFrequencyCaps {
+  /**
+   * The maximum number of notifications displayed in any 60 minute period.
+   */
+  perHour?: number;
+  /**
+   * The maximum number of notifications displayed in any 24 hour period.
+   */
+  perDay?: number;
+  /**
+   * The maximum number of notifications of each category displayed in any 24 hour period, keyed by category. A
+   * notification's category is the 'category' key of its additional data.
+   */
+  perCategory?: { [category: string]: number };
+  /**
+   * Whether notifications over a cap are collapsed into a single summary notification (the default) or dropped.
+   */
+  overCap?: 'collapse' | 'drop';
+  /**
+   * The body of the summary of collapsed notifications, where {count} is replaced by the number of notifications.
+   * Defaults to 'You have {count} more new notifications.'
+   */
+  summaryText?: LocalizedString;
+}
+
+/**
+ * A notification click route matches URLs by every criterion it specifies. The notification's URL and the URLs of open
+ * tabs are matched the same way, so a route's tabs are those showing the same area of the site.
+ */
+export interface AppUserConfigNotificationClickRoute {
+  /**
+   * Matches URLs whose path starts with this prefix (e.g. '/inbox').
+   */
+  pathPrefix?: string;
+  /**
+   * Matches full URLs against a pattern where * matches any characters and ? matches one character
+   * (e.g. 'https://site.com/articles/*').
+   */
+  glob?: string;
+  /**
+   * Matches full URLs against a regular expression.
+   */
+  regex?: string;
+  /**
+   * focus: focuses a tab matching the route, without changing its URL.
+   * navigate: focuses a tab matching the route and navigates it to the notification's URL.
+   * openWindow: always opens the notification's URL in a new window.
+   * message: only notifies the tabs matching the route of the click, without focusing or opening anything.
+   *
+   * If no tab matches the route, focus and navigate open the notification's URL in a new window.
+   */
+  action: 'focus' | 'navigate' | 'openWindow' | 'message';
+}
+
 export interface AppUserConfigWebhooks {
   cors: boolean;
   'notification.displayed': string;
   'notification.clicked': string;
+  'notification.dismissed': string;
 }
 
 export interface ServerAppConfig {
@@ -161,6 +296,7 @@ export interface ServerAppConfig {
     http_use_onesignal_com: boolean;
     safari_web_id: string;
     subdomain: string;
+    webhook_secret?: string;
   };
   generated_at: number;
 }
@@ -1,5 +1,5 @@
 import { WorkerMessenger } from '../libraries/WorkerMessenger';
-import { ServiceWorkerManager } from '../managers/ServiceWorkerManager';
+import { ServiceWorkerManager, ServiceWorkerManagerConfig } from '../managers/ServiceWorkerManager';
 import { SubscriptionManager } from '../managers/SubscriptionManager';
 import { DynamicResourceLoader } from '../services/DynamicResourceLoader';
 import CookieSyncer from '../modules/CookieSyncer';
@@ -7,6 +7,7 @@ import { AppConfig } from './AppConfig';
 import Path from './Path';
 import SdkEnvironment from '../managers/SdkEnvironment';
 import { SessionManager } from '../managers/SessionManager';
+import { TagManager } from '../managers/TagManager';
 
 
 export default class Context {
@@ -18,6 +19,7 @@ export default class Context {
   public workerMessenger: WorkerMessenger;
   public cookieSyncer: CookieSyncer;
   public sessionManager: SessionManager;
+  public tagManager: TagManager;
 
   constructor(appConfig: AppConfig) {
     this.appConfig = appConfig;
@@ -31,7 +33,7 @@ export default class Context {
       onesignalVapidPublicKey: appConfig.onesignalVapidPublicKey,
     });
 
-    const serviceWorkerManagerConfig = {
+    const serviceWorkerManagerConfig: ServiceWorkerManagerConfig = {
       workerAPath: new Path('/' + SdkEnvironment.getBuildEnvPrefix() + 'OneSignalSDKWorker.js'),
       workerBPath: new Path('/'+ SdkEnvironment.getBuildEnvPrefix() + 'OneSignalSDKUpdaterWorker.js'),
       registrationOptions: { scope: '/' }
@@ -44,6 +46,12 @@ export default class Context {
       if (appConfig.userConfig.serviceWorkerParam) {
         serviceWorkerManagerConfig.registrationOptions = appConfig.userConfig.serviceWorkerParam;
       }
+      if (appConfig.userConfig.serviceWorkerCompose) {
+        serviceWorkerManagerConfig.compose = true;
+        if (appConfig.userConfig.serviceWorkerComposedPath) {
+          serviceWorkerManagerConfig.composedWorkerPath = new Path(appConfig.userConfig.serviceWorkerComposedPath);
+        }
+      }
     }
     this.serviceWorkerManager = new ServiceWorkerManager(this, serviceWorkerManagerConfig);
 
@@ -51,5 +59,6 @@ export default class Context {
     this.dynamicResourceLoader = new DynamicResourceLoader();
 
     this.sessionManager = new SessionManager();
+    this.tagManager = new TagManager(this);
   }
 }
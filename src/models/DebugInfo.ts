@@ -0,0 +1,10 @@
+/**
+ * Diagnostic state for troubleshooting notification delivery, returned by OneSignal.getDebugInfo().
+ */
+export interface DebugInfo {
+  sdkVersion: number;
+  /**
+   * The number of pushes the service worker dropped because they repeated a notification it had already received.
+   */
+  duplicateNotificationsDropped: number;
+}
@@ -0,0 +1,32 @@
+export enum FrequencyCapOutcome {
+  Displayed = 'displayed',
+  /**
+   * The notification exceeded a cap and was replaced by a summary notification.
+   */
+  Collapsed = 'collapsed',
+  /**
+   * The notification exceeded a cap and was not displayed.
+   */
+  Dropped = 'dropped'
+}
+
+/**
+ * A notification checked against the site's frequency caps, stored in the display log.
+ */
+export interface DisplayLogEntry {
+  id: string;
+  category?: string;
+  timestamp: number;
+  outcome: FrequencyCapOutcome;
+}
+
+/**
+ * Describes the frequency cap a notification exceeded. Added to the notification as frequencyCap, and sent in the
+ * notification.displayed webhook.
+ */
+export interface FrequencyCapResult {
+  cap: 'perHour' | 'perDay' | 'perCategory';
+  limit: number;
+  category?: string;
+  outcome: FrequencyCapOutcome;
+}
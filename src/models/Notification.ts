@@ -13,9 +13,20 @@ export class Notification {
     public icon?: string;
     public image?: string;
     public tag?: string;
+    public badge?: string;
+    public vibrate?: number | Array<number>;
+    public silent?: boolean;
+    public timestamp?: number;
+    public dir?: 'auto' | 'ltr' | 'rtl';
+    public lang?: string;
     public requireInteraction?: boolean;
-    public renotify?: true;
+    public renotify?: boolean;
     public actions?: Array<NotificationActionButton>;
+    /**
+     * The time after which the notification is no longer relevant, in milliseconds since the epoch. Expired
+     * notifications aren't displayed, and are closed if already displayed.
+     */
+    public expiry?: number;
 
     constructor(title: string, options?: Notification) {
       this.title = title;
@@ -26,9 +37,16 @@ export class Notification {
       this.icon = options.icon;
       this.image = options.image;
       this.tag = options.tag
+      this.badge = options.badge;
+      this.vibrate = options.vibrate;
+      this.silent = options.silent;
+      this.timestamp = options.timestamp;
+      this.dir = options.dir;
+      this.lang = options.lang;
       this.requireInteraction = options.requireInteraction;
       this.renotify = options.renotify;
       this.actions = options.actions;
+      this.expiry = options.expiry;
     }
 
     static createMock({
@@ -57,7 +75,16 @@ export class Notification {
             data: payload.custom.a,
             url: payload.custom.u,
             icon: payload.icon,
-            tag: payload.tag
+            tag: payload.tag,
+            badge: payload.badge,
+            vibrate: payload.vibrate,
+            silent: payload.silent,
+            timestamp: payload.timestamp,
+            dir: payload.dir,
+            lang: payload.lang,
+            requireInteraction: payload.requireInteraction,
+            renotify: payload.renotify,
+            expiry: payload.exp
         });
 
         // Add action buttons
@@ -68,7 +95,9 @@ export class Notification {
                     action: rawButton.i,
                     title: rawButton.n,
                     icon: rawButton.p,
-                    url: rawButton.u
+                    url: rawButton.u,
+                    behavior: rawButton.b,
+                    webhook: rawButton.w
                 });
             }
         }
@@ -19,6 +19,18 @@ export class NotificationActionButton {
    * The URL to open the web browser to when this action button is clicked.
    */
   public url: URL;
+  /**
+   * What clicking the button does. Defaults to 'open'.
+   * open: opens the button's URL, or the notification's URL if the button has none.
+   * webhook: posts the notification to the button's webhook URL without opening a window.
+   * dismiss: closes the notification without opening a window or reporting it as opened.
+   * markAsRead: reports the notification as opened without opening a window.
+   */
+  public behavior?: 'open' | 'webhook' | 'dismiss' | 'markAsRead';
+  /**
+   * The URL posted to when a button with the webhook behavior is clicked.
+   */
+  public webhook?: string;
 
   constructor() {
   }
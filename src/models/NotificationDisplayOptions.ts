@@ -0,0 +1,11 @@
+/**
+ * Additional display options for a notification sent with sendSelfNotification(). Browsers ignore the options they
+ * don't support.
+ */
+export interface NotificationDisplayOptions {
+  /**
+   * A publicly reachable HTTPS URL to a monochrome image shown when there isn't enough space to display the
+   * notification itself, such as the Android notification bar.
+   */
+  badge?: string;
+}
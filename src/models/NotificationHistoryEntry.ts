@@ -0,0 +1,32 @@
+/**
+ * A notification displayed by the service worker, stored in the NotificationHistory table and returned by
+ * OneSignal.getNotificationHistory(). Updated in place as the notification is clicked or dismissed.
+ */
+export interface NotificationHistoryEntry {
+  /**
+   * The OneSignal notification ID.
+   */
+  id: string;
+  title: string;
+  body: string;
+  url: string;
+  data: any;
+  /**
+   * The action button last clicked, if the notification was clicked through an action button.
+   */
+  action?: string;
+  displayedAt: number;
+  clickedAt?: number;
+  dismissedAt?: number;
+}
+
+export interface NotificationHistoryQuery {
+  /**
+   * The maximum number of entries to return, most recently displayed first.
+   */
+  limit?: number;
+  /**
+   * Only return notifications displayed at or after this time, as a Date or milliseconds since the epoch.
+   */
+  since?: Date | number;
+}
@@ -0,0 +1,27 @@
+export enum NotificationReportKind {
+  /**
+   * The notification was displayed.
+   */
+  Received = 'received',
+  /**
+   * The notification was clicked.
+   */
+  Opened = 'opened'
+}
+
+/**
+ * A report to OneSignal that a notification was received or opened, stored in the NotificationReports table until it's
+ * sent.
+ */
+export interface NotificationReport {
+  /**
+   * The kind and notification ID, so each notification is reported at most once of each kind.
+   */
+  key: string;
+  kind: NotificationReportKind;
+  notificationId: string;
+  appId: string;
+  playerId: string;
+  queuedAt: number;
+  attempts: number;
+}
@@ -0,0 +1,18 @@
+/**
+ * A webhook request that failed to be delivered, stored in the WebhookQueue table until a later retry succeeds.
+ */
+export interface QueuedWebhook {
+  /**
+   * The event's idempotency ID, sent with every attempt so the site can ignore duplicate deliveries.
+   */
+  id: string;
+  event: string;
+  url: string;
+  /**
+   * The JSON request body.
+   */
+  body: string;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
@@ -0,0 +1,31 @@
+/**
+ * Hooks a site registers inside its service worker script with self.OneSignalWorker.use() to customize how pushed
+ * notifications are displayed and clicked. Any hook may return a Promise.
+ *
+ * Plugins run in the order they were registered; each hook receives the result of the previous plugin's hook.
+ */
+export interface ServiceWorkerPlugin {
+  /**
+   * Called with each structured notification received in a push message, before it is displayed.
+   *
+   * Return the notification (modified or replaced) to display it, or false to suppress it. Returning nothing keeps
+   * the notification unchanged. Browsers may show their own "This site has been updated in the background"
+   * notification if a push message displays nothing.
+   */
+  onPush?: (notification: any) => any;
+  /**
+   * Called with the options about to be passed to showNotification(), along with the notification they were built
+   * from.
+   *
+   * Return the options (modified or replaced) to display the notification, or false to suppress it. Returning nothing
+   * keeps the options unchanged.
+   */
+  beforeDisplay?: (notificationOptions: any, notification: any) => any;
+  /**
+   * Called when a notification's body or action button is clicked, before the notification's URL is opened.
+   *
+   * Return true to replace the SDK's click handling: no tab is focused or opened. The click is still reported to
+   * OneSignal and the notification.clicked webhook.
+   */
+  onClick?: (notification: any, event: any) => boolean;
+}
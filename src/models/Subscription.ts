@@ -11,6 +11,12 @@ export class Subscription implements Serializable {
    * The GCM/FCM registration token, as a stringified URL, or the Safari device token.
    */
   subscriptionToken: string;
+  /**
+   * The base64-encoded encryption keys of the W3C push subscription the token belongs to. Used to detect when the
+   * browser rotates the push subscription's keys while keeping its endpoint.
+   */
+  w3cP256dh?: string;
+  w3cAuth?: string;
   /**
    * Whether the user is opted out of notifications, set by setSubscription().
    */
@@ -20,6 +26,8 @@ export class Subscription implements Serializable {
     return {
       deviceId: this.deviceId.serialize(),
       subscriptionToken: this.subscriptionToken,
+      w3cP256dh: this.w3cP256dh,
+      w3cAuth: this.w3cAuth,
       optedOut: this.optedOut
     }
   }
@@ -28,6 +36,8 @@ export class Subscription implements Serializable {
     const subscription = new Subscription();
     subscription.deviceId = Uuid.deserialize(bundle.deviceId);
     subscription.subscriptionToken = bundle.subscriptionToken;
+    subscription.w3cP256dh = bundle.w3cP256dh;
+    subscription.w3cAuth = bundle.w3cAuth;
     subscription.optedOut = bundle.optedOut;
     return subscription;
   }
@@ -0,0 +1,27 @@
+import { ServiceWorkerActiveState } from '../managers/ServiceWorkerManager';
+import { NotificationPermission } from './NotificationPermission';
+
+/**
+ * A snapshot of everything that determines whether the user receives push notifications, returned by
+ * OneSignal.getSubscriptionState() and carried by the subscriptionStateChange event.
+ */
+export interface SubscriptionState {
+  permission: NotificationPermission;
+  /**
+   * Indeterminate on Safari, which doesn't use a service worker, and on HTTP sites, where the worker is installed on
+   * OneSignal's subdomain.
+   */
+  serviceWorkerActiveState: ServiceWorkerActiveState;
+  /**
+   * Whether the user is completely subscribed, as returned by OneSignal.isPushNotificationsEnabled().
+   */
+  isPushEnabled: boolean;
+  deviceId: string;
+  subscriptionToken: string;
+  optedOut: boolean;
+  /**
+   * Whether the stored subscription token is the browser's current push subscription. Null where the browser's push
+   * subscription isn't reachable from the page, such as on HTTP sites.
+   */
+  tokenMatchesPushSubscription: boolean;
+}
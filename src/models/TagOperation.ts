@@ -0,0 +1,15 @@
+/**
+ * A pending tag write waiting to be acknowledged by OneSignal. Stored in the TagOperations table keyed by the tag
+ * key, so that successive writes to the same key replace each other before being sent.
+ */
+export interface TagOperation {
+  key: string;
+  /**
+   * The tag value to send. An empty string deletes the tag.
+   */
+  value: any;
+  /**
+   * When the operation was queued. Used to tell whether a newer write replaced this one while it was being sent.
+   */
+  timestamp: number;
+}
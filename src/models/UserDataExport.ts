@@ -0,0 +1,24 @@
+import { AppState } from './AppState';
+import { NotificationHistoryEntry } from './NotificationHistoryEntry';
+
+/**
+ * Everything the SDK holds about the current user, returned by OneSignal.exportUserData().
+ */
+export interface UserDataExport {
+  /**
+   * The raw contents of the Ids, Options, and NotificationOpened IndexedDB tables, keyed by each table's primary key.
+   */
+  ids: object;
+  options: object;
+  notificationOpened: object;
+  /**
+   * The notifications recently displayed by the service worker, most recently displayed first.
+   */
+  notificationHistory: Array<NotificationHistoryEntry>;
+  subscription: object;
+  appState: AppState;
+  /**
+   * The player record stored on OneSignal's server, or null if the user was never registered.
+   */
+  player: object;
+}
@@ -1,5 +1,7 @@
 import * as log from 'loglevel';
 
+import { awaitUserConsent, isUserConsentPending } from '../utils';
+
 export default class CookieSyncer {
 
   private isFeatureEnabled: boolean;
@@ -30,6 +32,11 @@ export default class CookieSyncer {
       log.debug('Cookie sync feature is disabled.');
       return;
     }
+    if (isUserConsentPending()) {
+      log.debug('Delaying cookie sync until the user provides privacy consent.');
+      awaitUserConsent().then(() => this.install());
+      return;
+    }
     this.uninstall();
     const domElement = document.createElement('img');
     domElement.setAttribute('id', CookieSyncer.DOM_ID);
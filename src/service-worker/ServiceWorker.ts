@@ -14,6 +14,23 @@ import { contains, getConsoleStyle, getDeviceTypeForBrowser, isValidUuid, trimUn
 import { Uuid } from '../models/Uuid';
 import { AppConfig } from '../models/AppConfig';
 import { UnsubscriptionStrategy } from "../models/UnsubscriptionStrategy";
+import { SubscriptionStateKind } from '../models/SubscriptionStateKind';
+import { NotificationHistoryEntry } from '../models/NotificationHistoryEntry';
+import { ServiceWorkerPlugin } from '../models/ServiceWorkerPlugin';
+import { AppUserConfigQuietHours } from '../models/AppConfig';
+import QuietHoursHelper from '../helpers/QuietHoursHelper';
+import FrequencyCapHelper from '../helpers/FrequencyCapHelper';
+import LocalizationHelper from '../helpers/LocalizationHelper';
+import NotificationClickRouteHelper from '../helpers/NotificationClickRouteHelper';
+import BadgeHelper from '../helpers/BadgeHelper';
+import Crypto from '../services/Crypto';
+import { QueuedWebhook } from '../models/QueuedWebhook';
+import { NotificationReportKind } from '../models/NotificationReport';
+import { NotificationActionButton } from '../models/NotificationActionButton';
+import { AppUserConfigFrequencyCaps } from '../models/AppConfig';
+import { AppUserConfigNotificationClickRoute } from '../models/AppConfig';
+import { LocalizedString } from '../models/AppConfig';
+import { FrequencyCapOutcome, FrequencyCapResult } from '../models/FrequencyCap';
 
 ///<reference path="../../typings/globals/service_worker_api/index.d.ts"/>
 declare var self: ServiceWorkerGlobalScope;
@@ -30,6 +47,101 @@ declare var self: ServiceWorkerGlobalScope;
 export class ServiceWorker {
   static UNSUBSCRIBED_FROM_NOTIFICATIONS;
 
+  /**
+   * The maximum number of notifications kept in the notification history. Older notifications are removed first.
+   */
+  static NOTIFICATION_HISTORY_LIMIT = 100;
+
+  /**
+   * Notifications sent with at least this priority are displayed even during quiet hours.
+   */
+  static URGENT_PRIORITY = 10;
+
+  /**
+   * The number of notifications held during quiet hours. Older held notifications are dropped beyond this.
+   */
+  static QUIET_HOURS_HELD_NOTIFICATIONS_LIMIT = 50;
+
+  /**
+   * The tag of the notification summarizing the notifications held during quiet hours, so each summary replaces the
+   * last one.
+   */
+  static QUIET_HOURS_TAG = 'onesignal-quiet-hours';
+
+  /**
+   * The tag of the summary notification replacing notifications collapsed by the frequency caps, so each summary
+   * replaces the previous one.
+   */
+  static FREQUENCY_CAP_SUMMARY_TAG = 'onesignal-frequency-cap-summary';
+
+  /**
+   * Webhook requests that fail are retried this long after the first failure, doubling the delay after each further
+   * failure, and dropped after WEBHOOK_MAX_ATTEMPTS attempts.
+   */
+  static WEBHOOK_RETRY_DELAY = 30 * 1000;
+  static WEBHOOK_MAX_ATTEMPTS = 8;
+
+  /**
+   * Notification reports that fail to send are retried on later worker events, and dropped after this many attempts.
+   */
+  static NOTIFICATION_REPORT_MAX_ATTEMPTS = 8;
+
+  /**
+   * The Background Sync tag registered when notification reports fail to send, so they're retried once the browser is
+   * back online.
+   */
+  static NOTIFICATION_REPORT_SYNC_TAG = 'onesignal-notification-reports';
+
+  /**
+   * Resolves once the notification reports being sent are sent, so concurrent worker events don't send the same
+   * queued report twice.
+   */
+  private static notificationReportsSending: Promise<void> = Promise.resolve();
+
+  /**
+   * Resolves once the queued webhooks being retried are retried, so concurrent worker events don't deliver the same
+   * queued webhook twice.
+   */
+  private static queuedWebhooksRetrying: Promise<void> = Promise.resolve();
+
+  /**
+   * The number of recently received notification IDs kept to detect the same notification being pushed twice.
+   */
+  static RECENT_NOTIFICATION_IDS_LIMIT = 100;
+
+  /**
+   * Resolves once the notification being checked for duplicates is recorded, so concurrent push events can't both
+   * see the same notification as new.
+   */
+  private static duplicateNotificationCheck: Promise<boolean> = Promise.resolve(false);
+
+  /**
+   * The displays in progress of received notifications, by notification ID, so a duplicate push can wait for the
+   * first copy to be displayed.
+   */
+  private static newNotificationDisplays: { [id: string]: Promise<void> } = {};
+
+  /**
+   * How long to wait for a page's navigation handler to accept an in-page navigation before reloading the tab instead.
+   */
+  static IN_PAGE_NAVIGATION_TIMEOUT = 1000;
+
+  /**
+   * Callbacks for the in-page navigation requests waiting to be accepted, keyed by request ID.
+   */
+  private static pendingInPageNavigations: { [id: string]: Function } = {};
+
+  /**
+   * Resolves once the badge count being changed is stored, so concurrent worker events don't lose each other's
+   * changes.
+   */
+  private static badgeCountChange: Promise<void> = Promise.resolve();
+
+  /**
+   * The plugins registered by the site's service worker script with use(), in registration order.
+   */
+  static plugins: Array<ServiceWorkerPlugin> = [];
+
   /**
    * An incrementing integer defined in package.json. Value doesn't matter as long as it's different from the
    * previous version.
@@ -86,10 +198,15 @@ export class ServiceWorker {
   static run() {
     self.addEventListener('push', ServiceWorker.onPushReceived);
     self.addEventListener('notificationclose', ServiceWorker.onNotificationClosed);
-    self.addEventListener('notificationclick', event => event.waitUntil(ServiceWorker.onNotificationClicked(event)));
+    self.addEventListener('notificationclick', event => event.waitUntil(Promise.all([
+      ServiceWorker.onNotificationClicked(event),
+      ServiceWorker.retryQueuedRequests(),
+      ServiceWorker.closeExpiredNotifications().catch(e => log.error(e))
+    ])));
+    self.addEventListener('sync', event => event.waitUntil(ServiceWorker.onSync(event)));
     self.addEventListener('install', ServiceWorker.onServiceWorkerInstalled);
     self.addEventListener('activate', ServiceWorker.onServiceWorkerActivated);
-    self.addEventListener('pushsubscriptionchange', ServiceWorker.onPushSubscriptionChange);
+    self.addEventListener('pushsubscriptionchange', event => event.waitUntil(ServiceWorker.onPushSubscriptionChange(event)));
     /*
       According to
       https://w3c.github.io/ServiceWorker/#run-service-worker-algorithm:
@@ -110,6 +227,64 @@ export class ServiceWorker {
     ServiceWorker.setupMessageListeners();
   }
 
+  /**
+   * Registers hooks that can transform or suppress pushed notifications and replace click handling. Called by sites
+   * from their service worker script as self.OneSignalWorker.use({ onPush, beforeDisplay, onClick }), after importing
+   * OneSignal's service worker script.
+   */
+  static use(plugin: ServiceWorkerPlugin) {
+    if (!plugin || typeof plugin !== 'object') {
+      throw new Error('OneSignal Worker: use() must be called with an object of plugin hooks.');
+    }
+    ServiceWorker.plugins.push(plugin);
+  }
+
+  /**
+   * Passes the value through each registered plugin's hook of the given name. Returns null if a hook suppressed the
+   * value. A hook that throws is skipped so one faulty plugin can't prevent notifications from being displayed.
+   */
+  static async applyPluginHooks(hookName: string, value: any, ...args: Array<any>): Promise<any> {
+    for (let plugin of ServiceWorker.plugins) {
+      const hook = plugin[hookName];
+      if (typeof hook !== 'function') {
+        continue;
+      }
+      let result;
+      try {
+        result = await hook.call(plugin, value, ...args);
+      } catch (e) {
+        log.error(`OneSignal Worker: The ${hookName} plugin hook threw an error:`, e);
+        continue;
+      }
+      if (result === false || result === null) {
+        return null;
+      }
+      if (result !== undefined) {
+        value = result;
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Returns true if a registered plugin's onClick hook handled the notification click.
+   */
+  static async isClickHandledByPlugin(notification, event): Promise<boolean> {
+    for (let plugin of ServiceWorker.plugins) {
+      if (typeof plugin.onClick !== 'function') {
+        continue;
+      }
+      try {
+        if (await plugin.onClick(notification, event) === true) {
+          return true;
+        }
+      } catch (e) {
+        log.error('OneSignal Worker: The onClick plugin hook threw an error:', e);
+      }
+    }
+    return false;
+  }
+
   static async getAppId(): Promise<Uuid> {
     if (self.location.search) {
       // Successful regex matches are at position 1
@@ -133,6 +308,13 @@ export class ServiceWorker {
       const subscription = await context.subscriptionManager.subscribe();
       ServiceWorker.workerMessenger.broadcast(WorkerMessengerCommand.Subscribe, subscription.serialize());
     });
+    ServiceWorker.workerMessenger.on(WorkerMessengerCommand.NavigatePageHandled, (data: any) => {
+      ServiceWorker.onInPageNavigationHandled(data.id);
+    });
+    ServiceWorker.workerMessenger.on(WorkerMessengerCommand.QuietHoursDigest, async () => {
+      log.debug('[Service Worker] Received quiet hours digest message.');
+      await ServiceWorker.displayQuietHoursDigest();
+    });
     ServiceWorker.workerMessenger.on(WorkerMessengerCommand.AmpSubscriptionState, async (appConfigBundle: any) => {
       log.debug('[Service Worker] Received AMP subscription state message.');
       const pushSubscription = await self.registration.pushManager.getSubscription();
@@ -171,8 +353,18 @@ export class ServiceWorker {
   static onPushReceived(event) {
     log.debug(`Called %conPushReceived(${JSON.stringify(event, null, 4)}):`, getConsoleStyle('code'), event);
 
+    event.waitUntil(ServiceWorker.retryQueuedRequests());
     event.waitUntil(
-        ServiceWorker.parseOrFetchNotifications(event)
+        // Expired notifications are closed before any are displayed, so the push doesn't end with none displayed
+        ServiceWorker.closeExpiredNotifications()
+            .catch(e => log.error(e))
+            .then(() => ServiceWorker.parseOrFetchNotifications(event))
+            .then((notifications: any) => {
+              // Show notifications held during quiet hours first, if quiet hours have since ended
+              return ServiceWorker.displayQuietHoursDigest()
+                  .catch(e => log.error('Failed to display the quiet hours digest:', e))
+                  .then(() => notifications);
+            })
             .then((notifications: any) => {
               if (!notifications || notifications.length == 0) {
                 log.debug("Because no notifications were retrieved, we'll display the last known notification, so" +
@@ -189,11 +381,7 @@ export class ServiceWorker {
 
                 // Never nest the following line in a callback from the point of entering from retrieveNotifications
                 notificationEventPromiseFns.push((notif => {
-                  return ServiceWorker.displayNotification(notif)
-                      .then(() => ServiceWorker.updateBackupNotification(notif).catch(e => log.error(e)))
-                    .then(() => {
-                      return ServiceWorker.workerMessenger.broadcast(WorkerMessengerCommand.NotificationDisplayed, notif).catch(e => log.error(e))
-                    })
+                  return ServiceWorker.displayReceivedNotification(notif);
                 }).bind(null, notification));
               }
 
@@ -215,6 +403,392 @@ export class ServiceWorker {
     )
   }
 
+  /**
+   * Displays a structured notification received in a push message, unless a plugin suppresses it or it is held for
+   * quiet hours.
+   */
+  static async displayReceivedNotification(notification): Promise<void> {
+    if (ServiceWorker.isNotificationExpired(notification)) {
+      log.debug(`Not displaying notification ${notification.id} because it expired before it was received.`);
+      await ServiceWorker.ensureNotificationDisplayed();
+      return;
+    }
+    if (await ServiceWorker.isDuplicateNotification(notification)) {
+      log.debug(`Not displaying notification ${notification.id} because it was already received.`);
+      await ServiceWorker.newNotificationDisplays[notification.id];
+      await ServiceWorker.ensureNotificationDisplayed();
+      return;
+    }
+    const display = ServiceWorker.displayNewNotification(notification);
+    if (notification.id) {
+      ServiceWorker.newNotificationDisplays[notification.id] = display.catch(() => undefined);
+    }
+    try {
+      await display;
+    } catch (e) {
+      // Let the server's retry of this push display the notification instead of being dropped as a duplicate
+      await ServiceWorker.forgetNotificationId(notification.id);
+      throw e;
+    } finally {
+      delete ServiceWorker.newNotificationDisplays[notification.id];
+    }
+  }
+
+  private static async displayNewNotification(notification): Promise<void> {
+    await ServiceWorker.localizeNotification(notification);
+    notification = await ServiceWorker.applyPluginHooks('onPush', notification);
+    if (!notification) {
+      log.debug('Not displaying the notification because a plugin suppressed it.');
+      return;
+    }
+    if (await ServiceWorker.holdForQuietHours(notification)) {
+      log.debug('Holding the notification until quiet hours end.');
+      return;
+    }
+    if (!(await ServiceWorker.displayNotification(notification))) {
+      if (notification.frequencyCap) {
+        // Let the site know the notification was collapsed or dropped, in the webhook's frequencyCap data
+        await ServiceWorker.executeWebhooks('notification.displayed', notification).catch(e => log.error(e));
+      }
+      // A dropped notification leaves nothing displayed for this push
+      await ServiceWorker.ensureNotificationDisplayed();
+      return;
+    }
+    await ServiceWorker.updateBackupNotification(notification).catch(e => log.error(e));
+    await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationDisplayed, notification).catch(e => log.error(e));
+    await ServiceWorker.reportNotifications(NotificationReportKind.Received, [notification]).catch(e => log.error(e));
+    await ServiceWorker.workerMessenger.broadcast(WorkerMessengerCommand.NotificationDisplayed, notification).catch(e => log.error(e));
+    await ServiceWorker.executeWebhooks('notification.displayed', notification).catch(e => log.error(e));
+  }
+
+  /**
+   * Push subscriptions are userVisibleOnly, so Chrome shows its own "This site has been updated in the background"
+   * notification for a push message that leaves no notification displayed. Shows our generic backup notification
+   * instead if none is displayed.
+   */
+  static async ensureNotificationDisplayed(): Promise<void> {
+    const notifications = await self.registration.getNotifications();
+    if (notifications.length > 0) {
+      return;
+    }
+    await ServiceWorker.displayNotification({
+      content: 'You have new updates.'
+    }, {
+      persistNotification: false,
+      data: {__isOneSignalBackupNotification: true}
+    });
+  }
+
+  /**
+   * Returns true if a notification with the same ID was recently received, counting the duplicate in the debug info.
+   * Otherwise records the notification's ID and returns false. The same notification can be pushed twice, for example
+   * when the server retries a push or the browser has both a legacy and a VAPID subscription.
+   */
+  static isDuplicateNotification(notification): Promise<boolean> {
+    const check = ServiceWorker.duplicateNotificationCheck
+      .catch(() => false)
+      .then(() => ServiceWorker.checkAndRecordNotificationId(notification.id));
+    ServiceWorker.duplicateNotificationCheck = check;
+    return check;
+  }
+
+  private static async checkAndRecordNotificationId(id: string): Promise<boolean> {
+    if (!id) {
+      return false;
+    }
+    const recentIds = await Database.getRecentNotificationIds();
+    if (recentIds.indexOf(id) !== -1) {
+      await Database.setDuplicateNotificationsDropped((await Database.getDuplicateNotificationsDropped()) + 1);
+      return true;
+    }
+    recentIds.push(id);
+    await Database.setRecentNotificationIds(recentIds.slice(-ServiceWorker.RECENT_NOTIFICATION_IDS_LIMIT));
+    return false;
+  }
+
+  /**
+   * Removes the notification's ID from the recently received IDs, so the notification is no longer a duplicate.
+   */
+  private static forgetNotificationId(id: string): Promise<boolean> {
+    const forget = ServiceWorker.duplicateNotificationCheck
+      .catch(() => false)
+      .then(async () => {
+        const recentIds = await Database.getRecentNotificationIds();
+        await Database.setRecentNotificationIds(recentIds.filter(recentId => recentId !== id));
+        return false;
+      });
+    ServiceWorker.duplicateNotificationCheck = forget;
+    return forget;
+  }
+
+  /**
+   * Adds the change to the unread count shown on the app badge, which can't go below 0.
+   */
+  static changeBadgeCount(change: number): Promise<void> {
+    ServiceWorker.badgeCountChange = ServiceWorker.badgeCountChange
+      .then(async () => {
+        const badgeCount = Math.max(0, (await Database.getBadgeCount()) + change);
+        await Database.setBadgeCount(badgeCount);
+        await BadgeHelper.displayBadgeCount(badgeCount);
+      })
+      .catch(e => log.error('Failed to update the badge count:', e));
+    return ServiceWorker.badgeCountChange;
+  }
+
+  /**
+   * Returns the number of unread notifications a displayed notification stands for. Group summary and quiet hours
+   * digest notifications count each notification they stand for; our own backup and frequency cap summary
+   * notifications, which have no ID, don't count.
+   */
+  static getUnreadNotificationCount(notification): number {
+    if (!notification) {
+      return 0;
+    } else if (notification.groupedNotifications) {
+      return notification.groupedNotifications.length;
+    } else {
+      return notification.id ? 1 : 0;
+    }
+  }
+
+  /**
+   * Returns the number of unread notifications the displayed notifications with the tag stand for.
+   */
+  static async getDisplayedUnreadCount(tag: string): Promise<number> {
+    const displayedNotifications = await self.registration.getNotifications({ tag: tag });
+    return displayedNotifications.reduce((count, displayedNotification) =>
+      count + ServiceWorker.getUnreadNotificationCount(displayedNotification.data), 0);
+  }
+
+  /**
+   * Returns true if the notification has an expiry that has passed.
+   */
+  static isNotificationExpired(notification, now: number = Date.now()): boolean {
+    return !!notification && typeof notification.expiry === 'number' && notification.expiry <= now;
+  }
+
+  /**
+   * Closes the displayed notifications whose expiry has passed. Called whenever the service worker wakes up for an
+   * event, since service workers can't schedule work of their own.
+   */
+  static async closeExpiredNotifications(): Promise<void> {
+    const now = Date.now();
+    const notifications = await self.registration.getNotifications();
+    // Copied first, since some browsers return a live list that closing notifications modifies
+    const expiredNotifications = notifications.filter(n => ServiceWorker.isNotificationExpired(n.data, now));
+    for (let expiredNotification of expiredNotifications) {
+      log.debug(`Closing notification ${expiredNotification.data.id} because it expired.`);
+      expiredNotification.close();
+      await ServiceWorker.changeBadgeCount(-ServiceWorker.getUnreadNotificationCount(expiredNotification.data));
+    }
+  }
+
+  /**
+   * Notifications sharing a group key share this tag, so the group's summary notification replaces the last one.
+   */
+  static getGroupTag(group: string): string {
+    return `onesignal-group-${group}`;
+  }
+
+  /**
+   * Returns a summary notification replacing the displayed notifications of the notification's group, e.g. "3 new
+   * messages from X", or the site's groupSummaryText. The summary's groupedNotifications lists every notification of the group, oldest first. If no
+   * other notification of the group is displayed, the notification is returned unchanged.
+   */
+  static async collapseNotificationGroup(notification, tag: string): Promise<any> {
+    const displayedNotifications = await self.registration.getNotifications({ tag: tag });
+    const replacedNotifications = displayedNotifications.filter(displayedNotification =>
+      displayedNotification.data && displayedNotification.data.group === notification.group
+    );
+    let groupedNotifications = [];
+    for (let replacedNotification of replacedNotifications) {
+      const data = replacedNotification.data;
+      if (data.groupedNotifications) {
+        groupedNotifications = groupedNotifications.concat(data.groupedNotifications);
+      } else {
+        groupedNotifications.push(data);
+      }
+      replacedNotification.close();
+    }
+    if (groupedNotifications.length === 0) {
+      return notification;
+    }
+    groupedNotifications.push(objectAssign({}, notification));
+    const summaryText = await Database.get<LocalizedString>('Options', 'groupSummaryText');
+    return objectAssign({}, notification, {
+      content: await LocalizationHelper.localizeText(summaryText || '{count} new messages from {group}', {
+        count: groupedNotifications.length,
+        group: notification.groupName || notification.group
+      }),
+      groupedNotifications: groupedNotifications
+    });
+  }
+
+  /**
+   * Checks the notification against the site's frequency caps. Returns the cap the notification exceeded, recording
+   * it in the display log as collapsed or dropped, or null if it can be displayed.
+   */
+  static async checkFrequencyCaps(notification): Promise<FrequencyCapResult> {
+    const caps = await Database.get<AppUserConfigFrequencyCaps>('Options', 'frequencyCaps');
+    if (!caps) {
+      return null;
+    }
+    const now = Date.now();
+    const displayLog = FrequencyCapHelper.pruneDisplayLog(await Database.getDisplayLog(), now);
+    const exceededCap = FrequencyCapHelper.findExceededCap(caps, displayLog, ServiceWorker.getCategory(notification), now);
+    if (exceededCap) {
+      await ServiceWorker.addDisplayLogEntry(notification, exceededCap.outcome);
+    }
+    return exceededCap;
+  }
+
+  /**
+   * Records a displayed notification in the display log, so it counts toward the site's frequency caps.
+   */
+  static async recordFrequencyCapDisplay(notification): Promise<void> {
+    if (!(await Database.get<AppUserConfigFrequencyCaps>('Options', 'frequencyCaps'))) {
+      return;
+    }
+    await ServiceWorker.addDisplayLogEntry(notification, FrequencyCapOutcome.Displayed);
+  }
+
+  private static getCategory(notification): string {
+    return notification.data ? notification.data.category : undefined;
+  }
+
+  private static async addDisplayLogEntry(notification, outcome: FrequencyCapOutcome): Promise<void> {
+    const now = Date.now();
+    const displayLog = FrequencyCapHelper.pruneDisplayLog(await Database.getDisplayLog(), now);
+    displayLog.push({
+      id: notification.id,
+      category: ServiceWorker.getCategory(notification),
+      timestamp: now,
+      outcome: outcome
+    });
+    await Database.setDisplayLog(displayLog);
+  }
+
+  /**
+   * Replaces notifications collapsed by the frequency caps with a single summary notification counting them.
+   */
+  static async displayFrequencyCapSummary(): Promise<void> {
+    const collapsedCount = (await Database.getDisplayLog())
+      .filter(entry => entry.outcome === FrequencyCapOutcome.Collapsed)
+      .length;
+    const caps = await Database.get<AppUserConfigFrequencyCaps>('Options', 'frequencyCaps');
+    const summaryText = (caps && caps.summaryText) ||
+      (collapsedCount === 1 ? 'You have 1 more new notification.' : 'You have {count} more new notifications.');
+    await ServiceWorker.displayNotification({
+      content: await LocalizationHelper.localizeText(summaryText, { count: collapsedCount }),
+      tag: ServiceWorker.FREQUENCY_CAP_SUMMARY_TAG,
+      data: { __isOneSignalFrequencyCapSummary: true }
+    });
+  }
+
+  /**
+   * Replaces the notification's title, body, and button titles with the variants in the user's preferred language, for
+   * payloads carrying text in several languages (e.g. { en: 'Hello', de: 'Hallo' }).
+   */
+  static async localizeNotification(notification): Promise<void> {
+    const preferredLanguages = await LocalizationHelper.getPreferredLanguages();
+    notification.heading = LocalizationHelper.selectVariant(notification.heading, preferredLanguages);
+    notification.content = LocalizationHelper.selectVariant(notification.content, preferredLanguages);
+    if (notification.buttons) {
+      for (let button of notification.buttons) {
+        button.title = LocalizationHelper.selectVariant(button.title, preferredLanguages);
+      }
+    }
+  }
+
+  /**
+   * Stores the notification to be shown in the quiet hours digest if it was received during the site's configured
+   * quiet hours and isn't urgent. Returns true if the notification was held.
+   *
+   * Push subscriptions are userVisibleOnly, so a push message that displays nothing makes Chrome show its own "This
+   * site has been updated in the background" notification. Held notifications are instead summarized in a silent
+   * notification, which the digest replaces once quiet hours end.
+   */
+  static async holdForQuietHours(notification): Promise<boolean> {
+    if (notification.priority >= ServiceWorker.URGENT_PRIORITY) {
+      return false;
+    }
+    const quietHours = await Database.get<AppUserConfigQuietHours>('Options', 'quietHours');
+    if (!QuietHoursHelper.isQuietTime(quietHours, new Date())) {
+      return false;
+    }
+    const heldNotifications = (await Database.getHeldNotifications())
+      .concat(notification)
+      .slice(-ServiceWorker.QUIET_HOURS_HELD_NOTIFICATIONS_LIMIT);
+    await Database.setHeldNotifications(heldNotifications);
+    await ServiceWorker.displayHeldNotificationsSummary(heldNotifications, true);
+    return true;
+  }
+
+  /**
+   * Shows the notifications held during quiet hours once quiet hours end. A single held notification is shown as is;
+   * several are summarized in one digest notification. Service workers can't schedule work, so this runs on the next
+   * push message or page visit after quiet hours end; until then, the silent summary shown while holding them stays
+   * displayed.
+   */
+  static async displayQuietHoursDigest(): Promise<void> {
+    let heldNotifications = await Database.getHeldNotifications();
+    if (heldNotifications.length === 0) {
+      return;
+    }
+    const quietHours = await Database.get<AppUserConfigQuietHours>('Options', 'quietHours');
+    if (QuietHoursHelper.isQuietTime(quietHours, new Date())) {
+      return;
+    }
+    await Database.setHeldNotifications([]);
+
+    heldNotifications = heldNotifications.filter(n => !ServiceWorker.isNotificationExpired(n));
+    if (heldNotifications.length > 1) {
+      // Replaces the silent summary
+      await ServiceWorker.displayHeldNotificationsSummary(heldNotifications, false);
+      return;
+    }
+
+    await ServiceWorker.closeHeldNotificationsSummary();
+    if (heldNotifications.length === 1) {
+      const notification = heldNotifications[0];
+      if (await ServiceWorker.displayNotification(notification)) {
+        await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationDisplayed, notification).catch(e => log.error(e));
+      }
+    }
+  }
+
+  /**
+   * Displays one notification summarizing the notifications held during quiet hours. Clicking it reports each held
+   * notification as opened.
+   * @param silent True while quiet hours last, so the summary doesn't alert the user.
+   */
+  static async displayHeldNotificationsSummary(heldNotifications: Array<any>, silent: boolean): Promise<boolean> {
+    const count = heldNotifications.length;
+    const quietHours = await Database.get<AppUserConfigQuietHours>('Options', 'quietHours');
+    const summaryText = (quietHours && quietHours.summaryText) ||
+      (count === 1 ? 'You have 1 new notification.' : 'You have {count} new notifications.');
+    return await ServiceWorker.displayNotification({
+      content: await LocalizationHelper.localizeText(summaryText, { count: count }),
+      tag: ServiceWorker.QUIET_HOURS_TAG,
+      silent: silent,
+      renotify: !silent,
+      groupedNotifications: heldNotifications,
+      data: {
+        __isOneSignalDigestNotification: true
+      }
+    });
+  }
+
+  /**
+   * Closes the summary of the notifications held during quiet hours, if it's displayed.
+   */
+  static async closeHeldNotificationsSummary(): Promise<void> {
+    const summaries = await self.registration.getNotifications({ tag: ServiceWorker.QUIET_HOURS_TAG });
+    for (let summary of summaries) {
+      summary.close();
+      await ServiceWorker.changeBadgeCount(-ServiceWorker.getUnreadNotificationCount(summary.data));
+    }
+  }
+
   /**
    * Makes a POST call to a specified URL to forward certain events.
    * @param event The name of the webhook event. Affects the DB key pulled for settings and the final event the user
@@ -223,40 +797,124 @@ export class ServiceWorker {
    * @returns {Promise}
    */
   static async executeWebhooks(event, notification) {
-    const {deviceId} = await Database.getSubscription();
-    const isServerCorsEnabled = await Database.get<boolean>('Options', 'webhooks.cors');
-    const webhookTargetUrl = await Database.get('Options', `webhooks.${event}`);
+    const webhookTargetUrl = await Database.get<string>('Options', `webhooks.${event}`);
 
     if (webhookTargetUrl) {
-      // JSON.stringify() does not include undefined values
-      // Our response will not contain those fields here which have undefined values
-      let postData = {
-        event: event,
-        id: notification.id,
-        userId: deviceId,
-        action: notification.action,
-        buttons: notification.buttons,
-        heading: notification.heading,
-        content: notification.content,
-        url: notification.url,
-        icon: notification.icon,
-        data: notification.data
-      };
-      let fetchOptions: any = {
-        method: 'post',
-        mode: 'no-cors',
-        body: JSON.stringify(postData),
+      await ServiceWorker.sendWebhook(event, webhookTargetUrl, notification);
+    }
+  }
+
+  /**
+   * Posts the notification's details to the webhook URL, queuing the request to be retried if it fails.
+   */
+  static async sendWebhook(event: string, webhookTargetUrl: string, notification) {
+    const {deviceId} = await Database.getSubscription();
+    // Sent with every delivery attempt, so the site can ignore an event it already received
+    const eventId = Uuid.generate().value;
+    // JSON.stringify() does not include undefined values
+    // Our response will not contain those fields here which have undefined values
+    let postData = {
+      event: event,
+      eventId: eventId,
+      id: notification.id,
+      userId: deviceId,
+      action: notification.action,
+      buttons: notification.buttons,
+      heading: notification.heading,
+      content: notification.content,
+      url: notification.url,
+      icon: notification.icon,
+      data: notification.data,
+      frequencyCap: notification.frequencyCap,
+      groupedNotifications: notification.groupedNotifications
+    };
+    const webhook: QueuedWebhook = {
+      id: eventId,
+      event: event,
+      url: webhookTargetUrl,
+      body: JSON.stringify(postData),
+      queuedAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    };
+    log.debug(`Executing ${event} webhook %cPOST ${webhookTargetUrl}`, getConsoleStyle('code'), ':', postData);
+    if (!(await ServiceWorker.deliverWebhook(webhook))) {
+      await ServiceWorker.queueWebhookRetry(webhook);
+    }
+  }
 
+  /**
+   * Sends a webhook request, signed if the app has a webhook secret. Returns true if the request was delivered.
+   *
+   * The secret is part of the app's public config, so a valid signature doesn't prove the request came from OneSignal;
+   * sites should still look up the notification with the REST API before trusting the request.
+   *
+   * Responses to requests made without CORS are opaque, so only network errors can be detected for them.
+   */
+  static async deliverWebhook(webhook: QueuedWebhook): Promise<boolean> {
+    const isServerCorsEnabled = await Database.get<boolean>('Options', 'webhooks.cors');
+    let fetchOptions: any = {
+      method: 'post',
+      mode: 'no-cors',
+      body: webhook.body
+    };
+    if (isServerCorsEnabled) {
+      fetchOptions.mode = 'cors';
+      fetchOptions.headers = {
+        'X-OneSignal-Event': webhook.event,
+        'X-OneSignal-Event-Id': webhook.id,
+        'Content-Type': 'application/json'
       };
-      if (isServerCorsEnabled) {
-        fetchOptions.mode = 'cors';
-        fetchOptions.headers = {
-          'X-OneSignal-Event': event,
-          'Content-Type': 'application/json'
-        };
+      const secret = await Database.get<string>('Options', 'webhooks.secret');
+      if (secret) {
+        fetchOptions.headers['X-OneSignal-Signature'] = `sha256=${Crypto.hmacSha256(secret, webhook.body)}`;
+      }
+    }
+    try {
+      const response = await fetch(webhook.url, fetchOptions);
+      return !isServerCorsEnabled || response.status < 500;
+    } catch (e) {
+      log.debug(`Failed to deliver the ${webhook.event} webhook:`, e);
+      return false;
+    }
+  }
+
+  /**
+   * Stores a failed webhook request to be retried once its backoff delay has passed, or gives up on it after
+   * WEBHOOK_MAX_ATTEMPTS attempts.
+   */
+  static async queueWebhookRetry(webhook: QueuedWebhook) {
+    webhook.attempts++;
+    if (webhook.attempts >= ServiceWorker.WEBHOOK_MAX_ATTEMPTS) {
+      log.warn(`Giving up on the ${webhook.event} webhook after ${webhook.attempts} attempts.`);
+      await Database.removeQueuedWebhook(webhook.id);
+      return;
+    }
+    webhook.nextAttemptAt = Date.now() + ServiceWorker.WEBHOOK_RETRY_DELAY * Math.pow(2, webhook.attempts - 1);
+    await Database.putQueuedWebhook(webhook);
+  }
+
+  /**
+   * Retries the queued webhook requests whose backoff delay has passed.
+   */
+  static retryQueuedWebhooks(): Promise<void> {
+    ServiceWorker.queuedWebhooksRetrying = ServiceWorker.queuedWebhooksRetrying
+      .then(() => ServiceWorker.retryDueWebhooks())
+      .catch(e => log.error('Failed to retry queued webhooks:', e));
+    return ServiceWorker.queuedWebhooksRetrying;
+  }
+
+  private static async retryDueWebhooks() {
+    const now = Date.now();
+    for (let webhook of await Database.getQueuedWebhooks()) {
+      if (webhook.nextAttemptAt > now) {
+        continue;
+      }
+      if (await ServiceWorker.deliverWebhook(webhook)) {
+        await Database.removeQueuedWebhook(webhook.id);
+      } else {
+        await ServiceWorker.queueWebhookRetry(webhook);
       }
-      log.debug(`Executing ${event} webhook ${isServerCorsEnabled ? 'with' : 'without'} CORS %cPOST ${webhookTargetUrl}`, getConsoleStyle('code'), ':', postData);
-      return await fetch(webhookTargetUrl, fetchOptions);
     }
   }
 
@@ -306,7 +964,17 @@ export class ServiceWorker {
       image: rawNotification.image,
       tag: rawNotification.tag,
       badge: rawNotification.badge,
-      vibrate: rawNotification.vibrate
+      vibrate: rawNotification.vibrate,
+      silent: rawNotification.silent,
+      timestamp: rawNotification.timestamp,
+      dir: rawNotification.dir,
+      lang: rawNotification.lang,
+      renotify: rawNotification.renotify,
+      requireInteraction: rawNotification.requireInteraction,
+      priority: rawNotification.pri,
+      group: rawNotification.grp,
+      groupName: rawNotification.grp_name,
+      expiry: rawNotification.exp
     };
 
     // Add action buttons
@@ -317,7 +985,9 @@ export class ServiceWorker {
                                     action: rawButton.i,
                                     title: rawButton.n,
                                     icon: rawButton.p,
-                                    url: rawButton.u
+                                    url: rawButton.u,
+                                    behavior: rawButton.b,
+                                    webhook: rawButton.w
                                   });
       }
     }
@@ -355,13 +1025,17 @@ export class ServiceWorker {
   }
 
   /**
-   * Given a structured notification object, HTTPS-ifies the notification icons and action button icons, if they exist.
+   * Given a structured notification object, HTTPS-ifies the notification icons, badge, and action button icons, if
+   * they exist.
    */
   static ensureNotificationResourcesHttps(notification) {
     if (notification) {
       if (notification.icon) {
         notification.icon = ServiceWorker.ensureImageResourceHttps(notification.icon);
       }
+      if (notification.badge) {
+        notification.badge = ServiceWorker.ensureImageResourceHttps(notification.badge);
+      }
       if (notification.image) {
         notification.image = ServiceWorker.ensureImageResourceHttps(notification.image);
       }
@@ -375,12 +1049,57 @@ export class ServiceWorker {
     }
   }
 
+  /**
+   * Given a structured notification object, removes display options with values the browser would reject or
+   * misinterpret. showNotification() throws a TypeError for some invalid combinations, which would prevent the
+   * notification from being displayed at all.
+   */
+  static ensureNotificationOptionsValid(notification) {
+    if (!notification) {
+      return;
+    }
+    for (let booleanOption of ['silent', 'renotify', 'requireInteraction']) {
+      if (notification[booleanOption] !== undefined && typeof notification[booleanOption] !== 'boolean') {
+        delete notification[booleanOption];
+      }
+    }
+    if (notification.vibrate !== undefined) {
+      const pattern = Array.isArray(notification.vibrate) ? notification.vibrate : [notification.vibrate];
+      const isValidPattern = pattern.every(duration => typeof duration === 'number' && duration >= 0);
+      /*
+        Chrome throws if a silent notification has a vibration pattern. Firefox and Chrome only vibrate on Android.
+       */
+      if (!isValidPattern || notification.silent) {
+        delete notification.vibrate;
+      }
+    }
+    if (notification.timestamp !== undefined) {
+      const timestamp = typeof notification.timestamp === 'number' ?
+        notification.timestamp :
+        new Date(notification.timestamp).getTime();
+      if (isNaN(timestamp)) {
+        delete notification.timestamp;
+      } else {
+        notification.timestamp = timestamp;
+      }
+    }
+    if (notification.dir !== undefined && ['auto', 'ltr', 'rtl'].indexOf(notification.dir) === -1) {
+      delete notification.dir;
+    }
+    if (notification.lang !== undefined &&
+        (typeof notification.lang !== 'string' || !/^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i.test(notification.lang))) {
+      delete notification.lang;
+    }
+  }
+
   /**
    * Actually displays a visible notification to the user.
    * Any event needing to display a notification calls this so that all the display options can be centralized here.
    * @param notification A structured notification object.
+   * @returns False if the notification exceeded a frequency cap or a plugin's beforeDisplay hook suppressed it,
+   *          otherwise true.
    */
-  static async displayNotification(notification, overrides?) {
+  static async displayNotification(notification, overrides?): Promise<boolean> {
     log.debug(`Called %cdisplayNotification(${JSON.stringify(notification, null, 4)}):`, getConsoleStyle('code'), notification);
 
     // Use the default title if one isn't provided
@@ -407,7 +1126,33 @@ export class ServiceWorker {
       overrides = {};
     notification = objectAssign(notification, overrides);
 
+    // Enforce the site's frequency caps on OneSignal notifications, but not on our backup notification
+    const isBackupNotification = notification.data && notification.data.__isOneSignalBackupNotification;
+    const isCapped = notification.id && !isBackupNotification;
+    if (isCapped) {
+      const exceededCap = await ServiceWorker.checkFrequencyCaps(notification);
+      if (exceededCap) {
+        log.debug(`Not displaying the notification because it exceeds the ${exceededCap.cap} frequency cap.`);
+        notification.frequencyCap = exceededCap;
+        if (exceededCap.outcome === FrequencyCapOutcome.Collapsed) {
+          await ServiceWorker.displayFrequencyCapSummary();
+        }
+        return false;
+      }
+    }
+
+    if (notification.group) {
+      extra.tag = ServiceWorker.getGroupTag(notification.group);
+    }
+    // Displayed notifications sharing the tag are replaced without a click or close event, so they stop counting as
+    // unread here
+    const replacedUnreadCount = await ServiceWorker.getDisplayedUnreadCount(extra.tag);
+    if (notification.group) {
+      notification = await ServiceWorker.collapseNotificationGroup(notification, extra.tag);
+    }
+
     ServiceWorker.ensureNotificationResourcesHttps(notification);
+    ServiceWorker.ensureNotificationOptionsValid(notification);
 
     let notificationOptions = {
       body: notification.content,
@@ -442,7 +1187,9 @@ export class ServiceWorker {
        seconds unless requireInteraction is set to true. See:
        https://developers.google.com/web/updates/2015/10/notification-requireInteractiom
        */
-      requireInteraction: extra.persistNotification,
+      requireInteraction: notification.requireInteraction !== undefined ?
+        notification.requireInteraction :
+        extra.persistNotification,
       /*
        On Chrome 50+, by default notifications replacing
        identically-tagged notifications no longer vibrate/signal the user
@@ -450,7 +1197,7 @@ export class ServiceWorker {
        notifications to re-alert the user. See:
        https://developers.google.com/web/updates/2016/03/notifications
        */
-      renotify: true,
+      renotify: notification.renotify !== undefined ? notification.renotify : true,
       /*
        On Chrome 53+, returns the URL of the image used to represent the
        notification when there is not enough space to display the
@@ -471,11 +1218,37 @@ export class ServiceWorker {
       long to pause. For example [300, 100, 400] would vibrate 300ms,
       pause 100ms, then vibrate 400ms.
        */
-      vibrate: notification.vibrate
+      vibrate: notification.vibrate,
+      /*
+       On Chrome 43+, silences the sound and vibration of the notification.
+       */
+      silent: notification.silent,
+      /*
+       On Chrome 50+, the time the notification was created, in milliseconds
+       since the epoch. Shown as a relative time (e.g. "5 minutes ago").
+       */
+      timestamp: notification.timestamp,
+      /*
+       The text direction ('auto', 'ltr', or 'rtl') and language (a BCP 47
+       language tag like 'en-US') of the notification's title and body.
+       */
+      dir: notification.dir,
+      lang: notification.lang
     };
 
     notificationOptions = ServiceWorker.filterNotificationOptions(notificationOptions, persistNotification === 'force');
-    return self.registration.showNotification(notification.heading, notificationOptions);
+    notificationOptions = await ServiceWorker.applyPluginHooks('beforeDisplay', notificationOptions, notification);
+    if (!notificationOptions) {
+      log.debug('Not displaying the notification because a plugin suppressed it.');
+      return false;
+    }
+    await self.registration.showNotification(notification.heading, notificationOptions);
+    if (isCapped) {
+      // Only recorded once displayed, so notifications a plugin suppressed don't count toward the caps
+      await ServiceWorker.recordFrequencyCapDisplay(notification);
+    }
+    await ServiceWorker.changeBadgeCount(ServiceWorker.getUnreadNotificationCount(notification) - replacedUnreadCount);
+    return true;
   }
 
   static filterNotificationOptions(options: any, forcePersistNotifications?: boolean): any {
@@ -524,10 +1297,47 @@ export class ServiceWorker {
     await Database.put('Ids', {type: 'backupNotification', id: notification});
   }
 
+  /**
+   * Records a displayed, clicked, or dismissed notification in the notification history, keeping only the most recent
+   * NOTIFICATION_HISTORY_LIMIT notifications. Notifications without an ID (e.g. the backup notification) aren't
+   * recorded.
+   */
+  static async recordNotificationHistory(event: WorkerMessengerCommand, notification): Promise<void> {
+    if (!notification || !notification.id) {
+      return;
+    }
+    let entry: NotificationHistoryEntry = await Database.getNotificationHistoryEntry(notification.id);
+    if (!entry) {
+      entry = {
+        id: notification.id,
+        title: notification.heading,
+        body: notification.content,
+        url: notification.url,
+        data: notification.data,
+        displayedAt: Date.now()
+      };
+    }
+    if (event === WorkerMessengerCommand.NotificationClicked) {
+      entry.clickedAt = Date.now();
+      entry.action = notification.action;
+    } else if (event === WorkerMessengerCommand.NotificationDismissed) {
+      entry.dismissedAt = Date.now();
+    }
+    await Database.putNotificationHistoryEntry(entry);
+
+    if (event === WorkerMessengerCommand.NotificationDisplayed) {
+      const history = await Database.getNotificationHistory();
+      for (let expiredEntry of history.slice(ServiceWorker.NOTIFICATION_HISTORY_LIMIT)) {
+        await Database.removeNotificationHistoryEntry(expiredEntry.id);
+      }
+    }
+  }
+
   /**
    * Displays a fail-safe notification during a push event in case notification contents could not be retrieved.
    * This is to avoid Chrome's forced "This site has been updated in the background" message. See this post for
    * more details: http://stackoverflow.com/a/35045513/555547.
+   * The last displayed notification is shown again, unless it has since expired.
    */
   static displayBackupNotification() {
     return Database.get('Ids', 'backupNotification')
@@ -537,7 +1347,7 @@ export class ServiceWorker {
             persistNotification: false,
             data: {__isOneSignalBackupNotification: true}
           };
-          if (backupNotification) {
+          if (backupNotification && !ServiceWorker.isNotificationExpired(backupNotification)) {
             return ServiceWorker.displayNotification(backupNotification, overrides);
           } else {
             return ServiceWorker.displayNotification({
@@ -547,6 +1357,59 @@ export class ServiceWorker {
         });
   }
 
+  /**
+   * Returns the action button the user clicked, or null if the notification's body was clicked.
+   */
+  static getClickedActionButton(notification): NotificationActionButton {
+    if (!notification.action || !notification.buttons) {
+      return null;
+    }
+    for (let button of notification.buttons) {
+      if (button.action === notification.action) {
+        return button;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns true unless the action button has a behavior that doesn't open a window. Unknown behaviors open the URL.
+   */
+  static doesActionButtonOpenUrl(button: NotificationActionButton): boolean {
+    return ['webhook', 'dismiss', 'markAsRead'].indexOf(button.behavior) === -1;
+  }
+
+  /**
+   * Performs the declarative behavior of an action button that doesn't open a window.
+   */
+  static async performActionButtonBehavior(notification, button: NotificationActionButton) {
+    log.debug(`Performing the ${button.behavior} behavior of the ${button.action} action button.`);
+    switch (button.behavior) {
+      case 'webhook':
+        if (button.webhook) {
+          await ServiceWorker.sendWebhook('notification.actionButton', button.webhook, notification)
+            .catch(e => log.error(e));
+        }
+        return await ServiceWorker.sendNotificationOpened(notification);
+      case 'markAsRead':
+        return await ServiceWorker.sendNotificationOpened(notification);
+      case 'dismiss':
+        return;
+    }
+  }
+
+  /**
+   * Lets the handler registered with OneSignal.onActionButton() on an open page handle the action button click. The
+   * focused tab is preferred, so the handler runs only once.
+   */
+  static async notifyActionButtonHandler(notification) {
+    const activeClients = await ServiceWorker.getActiveClients();
+    const client = activeClients.filter(activeClient => activeClient.focused)[0] || activeClients[0];
+    if (client) {
+      ServiceWorker.workerMessenger.unicast(WorkerMessengerCommand.ActionButtonClicked, notification, client);
+    }
+  }
+
   /**
    * Returns false if the given URL matches a few special URLs designed to skip opening a URL when clicking a
    * notification. Otherwise returns true and the link will be opened.
@@ -567,9 +1430,13 @@ export class ServiceWorker {
     let notification = event.notification.data;
 
     ServiceWorker.workerMessenger.broadcast(WorkerMessengerCommand.NotificationDismissed, notification).catch(e => log.error(e))
-    event.waitUntil(
-        ServiceWorker.executeWebhooks('notification.dismissed', notification)
-    );
+    event.waitUntil(Promise.all([
+        ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationDismissed, notification).catch(e => log.error(e)),
+        ServiceWorker.changeBadgeCount(-ServiceWorker.getUnreadNotificationCount(notification)),
+        ServiceWorker.executeWebhooks('notification.dismissed', notification).catch(e => log.error(e)),
+        ServiceWorker.retryQueuedRequests(),
+        ServiceWorker.closeExpiredNotifications().catch(e => log.error(e))
+    ]));
   }
 
   /**
@@ -622,6 +1489,26 @@ export class ServiceWorker {
     if (event.action)
       notification.action = event.action;
 
+    await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationClicked, notification).catch(e => log.error(e));
+    await ServiceWorker.changeBadgeCount(-ServiceWorker.getUnreadNotificationCount(notification));
+    if (notification.data && notification.data.__isOneSignalDigestNotification) {
+      // The held notifications are reported as opened, so they aren't shown again once quiet hours end
+      await Database.setHeldNotifications([]);
+    }
+
+    if (await ServiceWorker.isClickHandledByPlugin(notification, event)) {
+      log.debug('Not opening the notification URL because a plugin handled the click.');
+      return await ServiceWorker.sendNotificationOpened(notification);
+    }
+
+    const actionButton = ServiceWorker.getClickedActionButton(notification);
+    if (actionButton) {
+      await ServiceWorker.notifyActionButtonHandler(notification).catch(e => log.error(e));
+      if (!ServiceWorker.doesActionButtonOpenUrl(actionButton)) {
+        return await ServiceWorker.performActionButtonBehavior(notification, actionButton);
+      }
+    }
+
     let notificationClickHandlerMatch = 'exact';
     let notificationClickHandlerAction = 'navigate';
 
@@ -638,6 +1525,13 @@ export class ServiceWorker {
     let launchUrl = await ServiceWorker.getNotificationUrlToOpen(notification);
     let notificationOpensLink = ServiceWorker.shouldOpenNotificationUrl(launchUrl);
 
+    const clickRoutes = await Database.get<Array<AppUserConfigNotificationClickRoute>>('Options', 'notificationClickRoutes');
+    const clickRoute = NotificationClickRouteHelper.findRoute(clickRoutes, launchUrl);
+    if (clickRoute) {
+      await ServiceWorker.routeNotificationClick(clickRoute, notification, launchUrl, activeClients);
+      return await ServiceWorker.sendNotificationOpened(notification);
+    }
+
     /*
      Check if we can focus on an existing tab instead of opening a new url.
      If an existing tab with exactly the same URL already exists, then this existing tab is focused instead of
@@ -710,8 +1604,7 @@ export class ServiceWorker {
             try {
               if (notificationOpensLink) {
                 log.debug(`Redirecting HTTPS site to (${launchUrl}).`)
-                await Database.put("NotificationOpened", { url: launchUrl, data: notification, timestamp: Date.now() });
-                await client.navigate(launchUrl);
+                await ServiceWorker.navigateClient(client, launchUrl, notification);
               } else {
                 log.debug('Not navigating because link is special.')
               }
@@ -739,16 +1632,232 @@ export class ServiceWorker {
       await ServiceWorker.openUrl(launchUrl);
     }
 
+    return await ServiceWorker.sendNotificationOpened(notification);
+  }
+
+  /**
+   * Handles a notification click according to the site's first notification click route matching the launch URL.
+   */
+  static async routeNotificationClick(route: AppUserConfigNotificationClickRoute, notification, launchUrl: string,
+                                      activeClients: Array<WindowClient>): Promise<void> {
+    log.debug(`Routing the notification click to ${launchUrl} with the ${route.action} action.`);
+    let matchingClients: Array<WindowClient> = [];
+    for (let client of activeClients) {
+      if (NotificationClickRouteHelper.matchesRoute(route, await ServiceWorker.getClientUrl(client))) {
+        matchingClients.push(client);
+      }
+    }
+    const notificationOpensLink = ServiceWorker.shouldOpenNotificationUrl(launchUrl);
+
+    if (route.action === 'message') {
+      for (let client of matchingClients) {
+        ServiceWorker.workerMessenger.unicast(WorkerMessengerCommand.NotificationClicked, notification, client);
+      }
+      return;
+    }
+
+    const client = matchingClients[0];
+    if (client && (route.action === 'focus' || route.action === 'navigate')) {
+      try {
+        await client.focus();
+      } catch (e) {
+        log.error("Failed to focus:", client, e);
+      }
+      const clientUrl = await ServiceWorker.getClientUrl(client);
+      if (route.action === 'focus' || !notificationOpensLink || clientUrl === launchUrl) {
+        ServiceWorker.workerMessenger.unicast(WorkerMessengerCommand.NotificationClicked, notification, client);
+        return;
+      }
+      if ((client as any).isSubdomainIframe) {
+        await Database.put("NotificationOpened", { url: launchUrl, data: notification, timestamp: Date.now() });
+        ServiceWorker.workerMessenger.unicast(WorkerMessengerCommand.RedirectPage, launchUrl, client);
+        return;
+      }
+      if (client.navigate) {
+        try {
+          await ServiceWorker.navigateClient(client, launchUrl, notification);
+          return;
+        } catch (e) {
+          log.error("Failed to navigate:", client, launchUrl, e);
+        }
+      }
+    }
+
+    if (notificationOpensLink) {
+      await Database.put("NotificationOpened", { url: launchUrl, data: notification, timestamp: Date.now() });
+      await ServiceWorker.openUrl(launchUrl);
+    }
+  }
+
+  /**
+   * Navigates the tab to the notification's URL. If the site enabled in-page navigation, the page's navigation handler
+   * is asked to change the page first, and the tab is only reloaded if no handler accepts within
+   * IN_PAGE_NAVIGATION_TIMEOUT.
+   */
+  static async navigateClient(client: WindowClient, url: string, notification): Promise<void> {
+    if (await Database.get<boolean>('Options', 'inPageNavigation')) {
+      if (await ServiceWorker.requestInPageNavigation(client, url)) {
+        // The page isn't reloaded, so it's told of the click directly instead of through the stored NotificationOpened
+        ServiceWorker.workerMessenger.unicast(WorkerMessengerCommand.NotificationClicked, notification, client);
+        try {
+          await client.focus();
+        } catch (e) {
+          log.error("Failed to focus:", client, e);
+        }
+        return;
+      }
+      log.debug(`No navigation handler accepted the navigation to ${url}; reloading the tab instead.`);
+    }
+    await Database.put("NotificationOpened", { url: url, data: notification, timestamp: Date.now() });
+    await client.navigate(url);
+  }
+
+  /**
+   * Asks the page's navigation handler to change the page to the URL. Resolves to true if the page accepts within
+   * IN_PAGE_NAVIGATION_TIMEOUT.
+   */
+  static requestInPageNavigation(client: WindowClient, url: string): Promise<boolean> {
+    const id = Uuid.generate().value;
+    return new Promise<boolean>(resolve => {
+      const timeoutId = setTimeout(() => {
+        delete ServiceWorker.pendingInPageNavigations[id];
+        resolve(false);
+      }, ServiceWorker.IN_PAGE_NAVIGATION_TIMEOUT);
+      ServiceWorker.pendingInPageNavigations[id] = () => {
+        clearTimeout(timeoutId);
+        delete ServiceWorker.pendingInPageNavigations[id];
+        resolve(true);
+      };
+      ServiceWorker.workerMessenger.unicast(WorkerMessengerCommand.NavigatePage, { id: id, url: url }, client);
+    });
+  }
+
+  /**
+   * Occurs when a page's navigation handler accepts an in-page navigation request.
+   */
+  static onInPageNavigationHandled(id: string) {
+    const onHandled = ServiceWorker.pendingInPageNavigations[id];
+    if (onHandled) {
+      onHandled();
+    }
+  }
+
+  /**
+   * Returns the URL of the page shown by the client. For the HTTP site's iFrame, this is the last known URL of the
+   * page hosting it.
+   */
+  static async getClientUrl(client: WindowClient): Promise<string> {
+    if (!(client as any).isSubdomainIframe) {
+      return client.url;
+    }
+    const lastKnownHostUrl = await Database.get<string>('Options', 'lastKnownHostUrl');
+    return lastKnownHostUrl || await Database.get<string>('Options', 'defaultUrl');
+  }
+
+  /**
+   * Reports the notification click to OneSignal and to the site's notification.clicked webhook. Clicking a group's
+   * summary notification opens every notification of the group.
+   */
+  static async sendNotificationOpened(notification) {
+    const openedNotifications = notification.groupedNotifications || [notification];
+    await ServiceWorker.reportNotifications(NotificationReportKind.Opened, openedNotifications);
+    return await ServiceWorker.executeWebhooks('notification.clicked', notification);
+  }
+
+  /**
+   * Queues reports to OneSignal that the notifications were received or opened, then sends the queued reports.
+   * Reports are queued first so they aren't lost if the browser is offline or the worker is stopped.
+   */
+  static async reportNotifications(kind: NotificationReportKind, notifications: Array<any>) {
     const { appId } = await Database.getAppConfig();
     const { deviceId } = await Database.getSubscription();
-    if (appId && deviceId) {
-      await OneSignalApi.put('notifications/' + notification.id, {
-        app_id: appId.toString(),
-        player_id: deviceId.toString(),
-        opened: true
+    if (!appId.value || !deviceId.value) {
+      log.debug(`Not reporting notifications ${kind} because the user is not registered.`);
+      return;
+    }
+    for (let notification of notifications) {
+      if (!notification.id) {
+        continue;
+      }
+      await Database.putNotificationReport({
+        key: `${kind}.${notification.id}`,
+        kind: kind,
+        notificationId: notification.id,
+        appId: appId.toString(),
+        playerId: deviceId.toString(),
+        queuedAt: Date.now(),
+        attempts: 0
       });
     }
-    return await ServiceWorker.executeWebhooks('notification.clicked', notification);
+    await ServiceWorker.sendNotificationReports();
+  }
+
+  /**
+   * Sends the queued notification reports. Reports that fail to send stay queued, to be retried on later push,
+   * notificationclick, and sync events.
+   */
+  static sendNotificationReports(): Promise<void> {
+    ServiceWorker.notificationReportsSending = ServiceWorker.notificationReportsSending
+      .then(() => ServiceWorker.sendQueuedNotificationReports())
+      .catch(e => log.error('Failed to send notification reports:', e));
+    return ServiceWorker.notificationReportsSending;
+  }
+
+  private static async sendQueuedNotificationReports() {
+    let hasFailedReports = false;
+    for (let report of await Database.getNotificationReports()) {
+      try {
+        if (report.kind === NotificationReportKind.Opened) {
+          await OneSignalApi.put(`notifications/${report.notificationId}`, {
+            app_id: report.appId,
+            player_id: report.playerId,
+            opened: true
+          });
+        } else {
+          await OneSignalApi.put(`notifications/${report.notificationId}/report_received`, {
+            app_id: report.appId,
+            player_id: report.playerId,
+            device_type: getDeviceTypeForBrowser()
+          });
+        }
+        await Database.removeNotificationReport(report.key);
+      } catch (e) {
+        report.attempts++;
+        if (report.attempts >= ServiceWorker.NOTIFICATION_REPORT_MAX_ATTEMPTS) {
+          log.warn(`Giving up on the ${report.kind} report for notification ${report.notificationId}:`, e);
+          await Database.removeNotificationReport(report.key);
+        } else {
+          log.debug(`Failed to send the ${report.kind} report for notification ${report.notificationId}:`, e);
+          await Database.putNotificationReport(report);
+          hasFailedReports = true;
+        }
+      }
+    }
+    // Background Sync isn't part of the service worker typings yet
+    const sync = (self.registration as any).sync;
+    if (hasFailedReports && sync) {
+      await sync.register(ServiceWorker.NOTIFICATION_REPORT_SYNC_TAG)
+        .catch(e => log.debug('Failed to register a background sync for notification reports:', e));
+    }
+  }
+
+  /**
+   * Retries the queued webhook requests and notification reports. Called whenever the service worker wakes up for an
+   * event, since service workers can't schedule work of their own.
+   */
+  static async retryQueuedRequests() {
+    await ServiceWorker.retryQueuedWebhooks();
+    await ServiceWorker.sendNotificationReports();
+  }
+
+  /**
+   * Occurs when the browser regains connectivity after a Background Sync was registered for failed notification
+   * reports.
+   */
+  static async onSync(event) {
+    if (event.tag === ServiceWorker.NOTIFICATION_REPORT_SYNC_TAG) {
+      await ServiceWorker.retryQueuedRequests();
+    }
   }
 
   /**
@@ -779,9 +1888,42 @@ export class ServiceWorker {
     event.waitUntil(self.clients.claim());
   }
 
-  static onPushSubscriptionChange(event) {
-    // Subscription expired
+  /**
+   * Occurs when the browser expires or replaces the push subscription, which may happen while no page is open.
+   *
+   * Subscribes again with the VAPID keys stored at init and registers the new subscription with OneSignal, so the
+   * player doesn't go stale. If push permission was revoked, the player is muted instead. Open pages are told so they
+   * can fire SUBSCRIPTION_CHANGED.
+   */
+  static async onPushSubscriptionChange(event) {
     log.debug(`Called %conPushSubscriptionChange(${JSON.stringify(event, null, 4)}):`, getConsoleStyle('code'), event);
+
+    const appConfig = await Database.getAppConfig();
+    const subscription = await Database.getSubscription();
+    if (!appConfig.appId || !appConfig.appId.value || !subscription.deviceId.value) {
+      log.debug('[Service Worker] Not resubscribing because the user was never registered with OneSignal.');
+      return;
+    }
+    if (subscription.optedOut) {
+      log.debug('[Service Worker] Not resubscribing because the user opted out.');
+      return;
+    }
+
+    const context = new Context(appConfig);
+    const pushPermission = await self.registration.pushManager.permissionState({ userVisibleOnly: true });
+    if (pushPermission === 'granted') {
+      const rawPushSubscription = await context.subscriptionManager.subscribeFcmVapidOrLegacyKey(self.registration);
+      await context.subscriptionManager.registerSubscriptionWithOneSignal(rawPushSubscription);
+      log.info('[Service Worker] Registered the replaced push subscription with OneSignal.');
+    } else {
+      log.info(`[Service Worker] Push permission is ${pushPermission}. Marking the player unsubscribed.`);
+      await OneSignalApi.updatePlayer(appConfig.appId, subscription.deviceId, {
+        notification_types: SubscriptionStateKind.MutedByApi
+      });
+      await Database.clearSubscriptionToken();
+    }
+
+    ServiceWorker.workerMessenger.broadcast(WorkerMessengerCommand.SubscriptionChanged, null);
   }
 
   /**
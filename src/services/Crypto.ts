@@ -309,12 +309,12 @@ sjcl.codec.utf8String = {
       out += String.fromCharCode(tmp >>> 24);
       tmp <<= 8;
     }
-    return decodeURIComponent((window as any).escape(out));
+    return decodeURIComponent((self as any).escape(out));
   },
 
   /** Convert from a UTF-8 string to a bitArray. */
   toBits: function (str) {
-    str = (window as any).unescape(encodeURIComponent(str));
+    str = (self as any).unescape(encodeURIComponent(str));
     var out = [], i, tmp=0;
     for (i=0; i<str.length; i++) {
       tmp = tmp << 8 | str.charCodeAt(i);
@@ -979,6 +979,46 @@ sjcl.hash.sha1.prototype = {
   }
 };
 
+/** @fileOverview HMAC implementation.
+ *
+ * @author Emily Stark
+ * @author Mike Hamburg
+ * @author Dan Boneh
+ */
+
+/** HMAC with the specified hash function.
+ * @constructor
+ * @param {bitArray} key the key for HMAC.
+ * @param {Object} [Hash=sjcl.hash.sha256] The hash function to use.
+ */
+sjcl.misc.hmac = function (key, Hash) {
+  this._hash = Hash = Hash || sjcl.hash.sha256;
+  var exKey = [[],[]], i,
+      bs = Hash.prototype.blockSize / 32;
+  this._baseHash = [new Hash(), new Hash()];
+
+  if (key.length > bs) {
+    key = Hash.hash(key);
+  }
+
+  for (i=0; i<bs; i++) {
+    exKey[0][i] = key[i]^0x36363636;
+    exKey[1][i] = key[i]^0x5C5C5C5C;
+  }
+
+  this._baseHash[0].update(exKey[0]);
+  this._baseHash[1].update(exKey[1]);
+};
+
+/** HMAC the data.
+ * @param {bitArray|String} data The data to mac.
+ * @return {bitArray} The MAC of the data.
+ */
+sjcl.misc.hmac.prototype.mac = function (data) {
+  var inner = new (this._hash)(this._baseHash[0]).update(data).finalize();
+  return new (this._hash)(this._baseHash[1]).update(inner).finalize();
+};
+
 export default class Crypto {
   static md5(text): string {
     return sjcl.codec.hex.fromBits(sjcl.hash.md5.hash(text));
@@ -990,4 +1030,9 @@ export default class Crypto {
   static sha256(text): string {
     return sjcl.codec.hex.fromBits(sjcl.hash.sha256.hash(text));
   }
+
+  static hmacSha256(key: string, text: string): string {
+    const hmac = new sjcl.misc.hmac(sjcl.codec.utf8String.toBits(key), sjcl.hash.sha256);
+    return sjcl.codec.hex.fromBits(hmac.mac(text));
+  }
 }
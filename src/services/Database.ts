@@ -3,9 +3,14 @@ import Emitter from '../libraries/Emitter';
 import SdkEnvironment from '../managers/SdkEnvironment';
 import { AppConfig } from '../models/AppConfig';
 import { AppState } from '../models/AppState';
+import { DisplayLogEntry } from '../models/FrequencyCap';
 import { Notification } from '../models/Notification';
+import { NotificationHistoryEntry } from '../models/NotificationHistoryEntry';
+import { QueuedWebhook } from '../models/QueuedWebhook';
+import { NotificationReport } from '../models/NotificationReport';
 import { ServiceWorkerState } from '../models/ServiceWorkerState';
 import { Subscription } from '../models/Subscription';
+import { TagOperation } from '../models/TagOperation';
 import { TestEnvironmentKind } from '../models/TestEnvironmentKind';
 import { Timestamp } from '../models/Timestamp';
 import { Uuid } from '../models/Uuid';
@@ -150,6 +155,7 @@ export default class Database {
     config.appId = new Uuid(appIdStr);
     config.subdomain = await this.get<string>('Options', 'subdomain');
     config.vapidPublicKey = await Database.get<string>('Options', 'vapidPublicKey');
+    config.onesignalVapidPublicKey = await Database.get<string>('Options', 'onesignalVapidPublicKey');
     return config;
   }
 
@@ -164,6 +170,8 @@ export default class Database {
       await this.put('Options', {key: 'httpUseOneSignalCom', value: false })
     if (appConfig.vapidPublicKey)
       await this.put('Options', {key: 'vapidPublicKey', value: appConfig.vapidPublicKey})
+    if (appConfig.onesignalVapidPublicKey)
+      await this.put('Options', {key: 'onesignalVapidPublicKey', value: appConfig.onesignalVapidPublicKey})
   }
 
   async getAppState(): Promise<AppState> {
@@ -224,6 +232,8 @@ export default class Database {
     const deviceIdStr: string = await this.get<string>('Ids', 'userId');
     subscription.deviceId = new Uuid(deviceIdStr);
     subscription.subscriptionToken = await this.get<string>('Ids', 'registrationId');
+    subscription.w3cP256dh = await this.get<string>('Ids', 'registrationP256dh');
+    subscription.w3cAuth = await this.get<string>('Ids', 'registrationAuth');
 
     // The preferred database key to store our subscription
     const dbOptedOut = await this.get<boolean>('Options', 'optedOut');
@@ -250,13 +260,239 @@ export default class Database {
     if (subscription.subscriptionToken) {
       await this.put('Ids', { type: 'registrationId', id: subscription.subscriptionToken });
     }
+    if (subscription.w3cP256dh) {
+      await this.put('Ids', { type: 'registrationP256dh', id: subscription.w3cP256dh });
+    }
+    if (subscription.w3cAuth) {
+      await this.put('Ids', { type: 'registrationAuth', id: subscription.w3cAuth });
+    }
     if (subscription.optedOut != null) { // Checks if null or undefined, allows false
       await this.put('Options', { key: 'optedOut', value: subscription.optedOut });
     }
   }
 
   /**
-   * Asynchronously removes the Ids, NotificationOpened, and Options tables from the database and recreates them with blank values.
+   * Removes the stored device ID, push token, and opt-out flag.
+   */
+  async clearSubscription() {
+    await this.remove('Ids', 'userId');
+    await this.clearSubscriptionToken();
+    await this.remove('Options', 'optedOut');
+    await this.remove('Options', 'subscription');
+  }
+
+  /**
+   * Removes the stored push token and its keys but keeps the device ID, so that resubscribing updates the same player.
+   */
+  async clearSubscriptionToken() {
+    await this.remove('Ids', 'registrationId');
+    await this.remove('Ids', 'registrationP256dh');
+    await this.remove('Ids', 'registrationAuth');
+  }
+
+  /**
+   * Returns the language set with OneSignal.setLanguage(), or null to use the browser's language.
+   */
+  async getLanguage(): Promise<string> {
+    return await this.get<string>('Options', 'language');
+  }
+
+  async setLanguage(language: string) {
+    if (language) {
+      await this.put('Options', { key: 'language', value: language });
+    } else {
+      await this.remove('Options', 'language');
+    }
+  }
+
+  async getExternalUserId(): Promise<string> {
+    return await this.get<string>('Options', 'externalUserId');
+  }
+
+  async setExternalUserId(externalUserId: string) {
+    if (externalUserId) {
+      await this.put('Options', { key: 'externalUserId', value: externalUserId });
+    } else {
+      await this.remove('Options', 'externalUserId');
+    }
+  }
+
+  /**
+   * Returns the tags last known to be stored on OneSignal for the player, or null if they haven't been fetched for this
+   * player yet.
+   */
+  async getCachedTags(deviceId: Uuid): Promise<Object> {
+    const cache = await this.get<any>('Options', 'cachedTags');
+    if (!cache || !deviceId || cache.deviceId !== deviceId.value) {
+      return null;
+    }
+    return cache.tags;
+  }
+
+  async setCachedTags(deviceId: Uuid, tags: Object) {
+    await this.put('Options', { key: 'cachedTags', value: { deviceId: deviceId.value, tags: tags } });
+  }
+
+  /**
+   * Returns the structured notifications held during quiet hours, oldest first.
+   */
+  async getHeldNotifications(): Promise<Array<any>> {
+    return (await this.get<Array<any>>('Options', 'heldNotifications')) || [];
+  }
+
+  async setHeldNotifications(notifications: Array<any>) {
+    await this.put('Options', { key: 'heldNotifications', value: notifications });
+  }
+
+  /**
+   * Returns the notifications recently checked against the site's frequency caps, oldest first.
+   */
+  async getDisplayLog(): Promise<Array<DisplayLogEntry>> {
+    return (await this.get<Array<DisplayLogEntry>>('Options', 'displayLog')) || [];
+  }
+
+  async setDisplayLog(displayLog: Array<DisplayLogEntry>) {
+    await this.put('Options', { key: 'displayLog', value: displayLog });
+  }
+
+  /**
+   * Returns the number of unread notifications shown on the app badge.
+   */
+  async getBadgeCount(): Promise<number> {
+    return (await this.get<number>('Options', 'badgeCount')) || 0;
+  }
+
+  async setBadgeCount(count: number) {
+    await this.put('Options', { key: 'badgeCount', value: count });
+  }
+
+  /**
+   * Returns the IDs of the notifications most recently received by the service worker, oldest first.
+   */
+  async getRecentNotificationIds(): Promise<Array<string>> {
+    return (await this.get<Array<string>>('Options', 'recentNotificationIds')) || [];
+  }
+
+  async setRecentNotificationIds(ids: Array<string>) {
+    await this.put('Options', { key: 'recentNotificationIds', value: ids });
+  }
+
+  /**
+   * Returns the number of repeated pushes of an already received notification the service worker dropped. On HTTP
+   * sites the service worker stores it on the subdomain's origin, so the page reads it through the proxy frame, like
+   * any other value from this database.
+   */
+  async getDuplicateNotificationsDropped(): Promise<number> {
+    return (await this.get<number>('Options', 'duplicateNotificationsDropped')) || 0;
+  }
+
+  async setDuplicateNotificationsDropped(count: number) {
+    await this.put('Options', { key: 'duplicateNotificationsDropped', value: count });
+  }
+
+  async getNotificationHistoryEntry(id: string): Promise<NotificationHistoryEntry> {
+    return await this.get<NotificationHistoryEntry>('NotificationHistory', id);
+  }
+
+  async putNotificationHistoryEntry(entry: NotificationHistoryEntry) {
+    await this.put('NotificationHistory', entry);
+  }
+
+  /**
+   * Returns all notification history entries, most recently displayed first.
+   */
+  async getNotificationHistory(): Promise<Array<NotificationHistoryEntry>> {
+    const entries = await this.get<object>('NotificationHistory');
+    if (!entries) {
+      return [];
+    }
+    return Object.keys(entries)
+      .map(id => entries[id] as NotificationHistoryEntry)
+      .sort((a, b) => b.displayedAt - a.displayedAt);
+  }
+
+  async removeNotificationHistoryEntry(id: string) {
+    await this.remove('NotificationHistory', id);
+  }
+
+  async clearNotificationHistory() {
+    await this.remove('NotificationHistory');
+  }
+
+  /**
+   * Returns the webhook requests waiting to be retried, oldest first.
+   */
+  async getQueuedWebhooks(): Promise<Array<QueuedWebhook>> {
+    const webhooks = await this.get<object>('WebhookQueue');
+    if (!webhooks) {
+      return [];
+    }
+    return Object.keys(webhooks)
+      .map(id => webhooks[id] as QueuedWebhook)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async putQueuedWebhook(webhook: QueuedWebhook) {
+    await this.put('WebhookQueue', webhook);
+  }
+
+  async removeQueuedWebhook(id: string) {
+    await this.remove('WebhookQueue', id);
+  }
+
+  /**
+   * Returns the notification reports waiting to be sent, oldest first.
+   */
+  async getNotificationReports(): Promise<Array<NotificationReport>> {
+    const reports = await this.get<object>('NotificationReports');
+    if (!reports) {
+      return [];
+    }
+    return Object.keys(reports)
+      .map(key => reports[key] as NotificationReport)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async putNotificationReport(report: NotificationReport) {
+    await this.put('NotificationReports', report);
+  }
+
+  async removeNotificationReport(key: string) {
+    await this.remove('NotificationReports', key);
+  }
+
+  async getTagOperations(): Promise<Array<TagOperation>> {
+    const operations = await this.get<object>('TagOperations');
+    if (!operations) {
+      return [];
+    }
+    return Object.keys(operations).map(key => operations[key] as TagOperation);
+  }
+
+  /**
+   * Queues each tag write, replacing any pending write to the same key.
+   */
+  async putTagOperations(tags: object) {
+    const timestamp = Date.now();
+    for (let key of Object.keys(tags)) {
+      await this.put('TagOperations', { key: key, value: tags[key], timestamp: timestamp });
+    }
+  }
+
+  /**
+   * Removes an acknowledged tag write, unless a newer write to the same key was queued in the meantime.
+   */
+  async removeTagOperation(operation: TagOperation) {
+    const storedOperation = await this.get<TagOperation>('TagOperations', operation.key);
+    if (storedOperation &&
+        storedOperation.timestamp === operation.timestamp &&
+        storedOperation.value === operation.value) {
+      await this.remove('TagOperations', operation.key);
+    }
+  }
+
+  /**
+   * Asynchronously removes the Ids, NotificationOpened, Options, and TagOperations tables from the database and recreates them with blank values.
    * @returns {Promise} Returns a promise that is fulfilled when rebuilding is completed, or rejects with an error.
    */
   static async rebuild() {
@@ -265,6 +501,10 @@ export default class Database {
       Database.databaseInstance.remove('Ids'),
       Database.databaseInstance.remove('NotificationOpened'),
       Database.databaseInstance.remove('Options'),
+      Database.databaseInstance.remove('TagOperations'),
+      Database.databaseInstance.remove('NotificationHistory'),
+      Database.databaseInstance.remove('WebhookQueue'),
+      Database.databaseInstance.remove('NotificationReports'),
     ]);
   }
 
@@ -291,6 +531,134 @@ export default class Database {
     Database.ensureSingletonInstance();
     return Database.databaseInstance.getSubscription.call(Database.databaseInstance);
   }
+  static async getLanguage(): Promise<string> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getLanguage.call(Database.databaseInstance);
+  }
+  static async setLanguage(language: string) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setLanguage.call(Database.databaseInstance, language);
+  }
+  static async setExternalUserId(externalUserId: string) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setExternalUserId.call(Database.databaseInstance, externalUserId);
+  }
+  static async getExternalUserId(): Promise<string> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getExternalUserId.call(Database.databaseInstance);
+  }
+  static async getCachedTags(deviceId: Uuid): Promise<Object> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getCachedTags.call(Database.databaseInstance, deviceId);
+  }
+  static async setCachedTags(deviceId: Uuid, tags: Object) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setCachedTags.call(Database.databaseInstance, deviceId, tags);
+  }
+  static async getHeldNotifications(): Promise<Array<any>> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getHeldNotifications.call(Database.databaseInstance);
+  }
+  static async setHeldNotifications(notifications: Array<any>) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setHeldNotifications.call(Database.databaseInstance, notifications);
+  }
+  static async getDisplayLog(): Promise<Array<DisplayLogEntry>> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getDisplayLog.call(Database.databaseInstance);
+  }
+  static async setDisplayLog(displayLog: Array<DisplayLogEntry>) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setDisplayLog.call(Database.databaseInstance, displayLog);
+  }
+  static async clearSubscription() {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.clearSubscription.call(Database.databaseInstance);
+  }
+  static async clearSubscriptionToken() {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.clearSubscriptionToken.call(Database.databaseInstance);
+  }
+  static async getBadgeCount(): Promise<number> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getBadgeCount.call(Database.databaseInstance);
+  }
+  static async setBadgeCount(count: number) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setBadgeCount.call(Database.databaseInstance, count);
+  }
+  static async getRecentNotificationIds(): Promise<Array<string>> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getRecentNotificationIds.call(Database.databaseInstance);
+  }
+  static async setRecentNotificationIds(ids: Array<string>) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setRecentNotificationIds.call(Database.databaseInstance, ids);
+  }
+  static async getDuplicateNotificationsDropped(): Promise<number> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getDuplicateNotificationsDropped.call(Database.databaseInstance);
+  }
+  static async setDuplicateNotificationsDropped(count: number) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.setDuplicateNotificationsDropped.call(Database.databaseInstance, count);
+  }
+  static async getNotificationHistoryEntry(id: string): Promise<NotificationHistoryEntry> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getNotificationHistoryEntry.call(Database.databaseInstance, id);
+  }
+  static async putNotificationHistoryEntry(entry: NotificationHistoryEntry) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.putNotificationHistoryEntry.call(Database.databaseInstance, entry);
+  }
+  static async getNotificationHistory(): Promise<Array<NotificationHistoryEntry>> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getNotificationHistory.call(Database.databaseInstance);
+  }
+  static async removeNotificationHistoryEntry(id: string) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.removeNotificationHistoryEntry.call(Database.databaseInstance, id);
+  }
+  static async getQueuedWebhooks(): Promise<Array<QueuedWebhook>> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getQueuedWebhooks.call(Database.databaseInstance);
+  }
+  static async putQueuedWebhook(webhook: QueuedWebhook) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.putQueuedWebhook.call(Database.databaseInstance, webhook);
+  }
+  static async removeQueuedWebhook(id: string) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.removeQueuedWebhook.call(Database.databaseInstance, id);
+  }
+  static async getNotificationReports(): Promise<Array<NotificationReport>> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getNotificationReports.call(Database.databaseInstance);
+  }
+  static async putNotificationReport(report: NotificationReport) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.putNotificationReport.call(Database.databaseInstance, report);
+  }
+  static async removeNotificationReport(key: string) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.removeNotificationReport.call(Database.databaseInstance, key);
+  }
+  static async clearNotificationHistory() {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.clearNotificationHistory.call(Database.databaseInstance);
+  }
+  static async getTagOperations(): Promise<Array<TagOperation>> {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.getTagOperations.call(Database.databaseInstance);
+  }
+  static async putTagOperations(tags: object) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.putTagOperations.call(Database.databaseInstance, tags);
+  }
+  static async removeTagOperation(operation: TagOperation) {
+    Database.ensureSingletonInstance();
+    return Database.databaseInstance.removeTagOperation.call(Database.databaseInstance, operation);
+  }
   static async setServiceWorkerState(workerState: ServiceWorkerState) {
     Database.ensureSingletonInstance();
     return Database.databaseInstance.setServiceWorkerState.call(Database.databaseInstance, workerState);
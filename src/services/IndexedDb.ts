@@ -5,6 +5,12 @@ import { contains } from '../utils';
 
 export default class IndexedDb {
 
+  /**
+   * Incremented each time an object store is added. onDatabaseUpgradeNeeded() creates the stores missing from the
+   * version being upgraded from.
+   */
+  public static VERSION = 5;
+
   public emitter: Emitter;
   private database: IDBDatabase;
   private openLock: Promise<IDBDatabase>;
@@ -17,7 +23,7 @@ export default class IndexedDb {
     return new Promise<IDBDatabase>(resolve => {
       try {
         // Open algorithm: https://www.w3.org/TR/IndexedDB/#h-opening
-        var request: IDBOpenDBRequest = indexedDB.open(databaseName, 1);
+        var request: IDBOpenDBRequest = indexedDB.open(databaseName, IndexedDb.VERSION);
       } catch (e) {
         // Errors should be thrown on the request.onerror event, but just in case Firefox throws additional errors
         // for profile schema too high
@@ -97,18 +103,40 @@ export default class IndexedDb {
   private onDatabaseUpgradeNeeded(event: IDBVersionChangeEvent): void {
     log.debug('IndexedDb: Database is being rebuilt or upgraded (upgradeneeded event).');
     const db = (event.target as IDBOpenDBRequest).result;
-    db.createObjectStore("Ids", {
-      keyPath: "type"
-    });
-    db.createObjectStore("NotificationOpened", {
-      keyPath: "url"
-    });
-    db.createObjectStore("Options", {
-      keyPath: "key"
-    });
-    // Wrap in conditional for tests
-    if (typeof OneSignal !== "undefined") {
-      OneSignal._isNewVisitor = true;
+    if (event.oldVersion < 1) {
+      db.createObjectStore("Ids", {
+        keyPath: "type"
+      });
+      db.createObjectStore("NotificationOpened", {
+        keyPath: "url"
+      });
+      db.createObjectStore("Options", {
+        keyPath: "key"
+      });
+      // Wrap in conditional for tests
+      if (typeof OneSignal !== "undefined") {
+        OneSignal._isNewVisitor = true;
+      }
+    }
+    if (event.oldVersion < 2) {
+      db.createObjectStore("TagOperations", {
+        keyPath: "key"
+      });
+    }
+    if (event.oldVersion < 3) {
+      db.createObjectStore("NotificationHistory", {
+        keyPath: "id"
+      });
+    }
+    if (event.oldVersion < 4) {
+      db.createObjectStore("WebhookQueue", {
+        keyPath: "id"
+      });
+    }
+    if (event.oldVersion < 5) {
+      db.createObjectStore("NotificationReports", {
+        keyPath: "key"
+      });
     }
   }
 
@@ -126,6 +126,29 @@ export function awaitOneSignalInitAndSupported() {
     } else {
       resolve();
     }
+  }).then(() => awaitUserConsent());
+}
+
+/**
+ * Returns true if the site requires the user's privacy consent before the SDK contacts OneSignal, and the user hasn't
+ * given it yet. Always false in the service worker, which only runs for users who already subscribed.
+ */
+export function isUserConsentPending(): boolean {
+  return typeof OneSignal !== 'undefined' &&
+    !!OneSignal._requiresUserPrivacyConsent &&
+    !OneSignal._userConsentGiven;
+}
+
+/**
+ * Resolves once the user has given privacy consent, or immediately if consent isn't required.
+ */
+export function awaitUserConsent(): Promise<void> {
+  return new Promise<void>(resolve => {
+    if (isUserConsentPending()) {
+      OneSignal.once(OneSignal.EVENTS.PRIVACY_CONSENT_PROVIDED, () => resolve());
+    } else {
+      resolve();
+    }
   });
 }
 
@@ -339,7 +362,11 @@ export function wipeIndexedDb() {
   return Promise.all([
     Database.remove('Ids'),
     Database.remove('NotificationOpened'),
-    Database.remove('Options')
+    Database.remove('Options'),
+    Database.remove('TagOperations'),
+    Database.remove('NotificationHistory'),
+    Database.remove('WebhookQueue'),
+    Database.remove('NotificationReports')
   ]);
 }
 
@@ -353,15 +380,21 @@ export function capitalize(text): string {
 
 /**
  * Unsubscribe from push notifications without removing the active service worker.
+ *
+ * The service worker unsubscribes its own registration's subscription; pages go through navigator.serviceWorker, or
+ * the HTTPS iFrame for HTTP sites, since a page has no registration of its own. Not being subscribed isn't an error,
+ * so erasing a user's data also works for users who never subscribed.
  */
 export function unsubscribeFromPush() {
   log.warn('OneSignal: Unsubscribing from push.');
-  if (SdkEnvironment.getWindowEnv() !== WindowEnvironmentKind.ServiceWorker) {
+  if (SdkEnvironment.getWindowEnv() === WindowEnvironmentKind.ServiceWorker) {
     return (<any>self).registration.pushManager.getSubscription()
                        .then(subscription => {
                          if (subscription) {
                            return subscription.unsubscribe();
-                         } else throw new Error('Cannot unsubscribe because not subscribed.');
+                         } else {
+                           log.debug('Not unsubscribing from push because there is no push subscription.');
+                         }
                        });
   } else {
     if (SubscriptionHelper.isUsingSubscriptionWorkaround()) {
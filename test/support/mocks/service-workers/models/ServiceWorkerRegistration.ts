@@ -31,8 +31,12 @@ export default class ServiceWorkerRegistration {
     return null;
   }
 
-  async getNotifications() {
-    return this.notifications;
+  async getNotifications(filter?: { tag?: string }) {
+    if (filter && filter.tag) {
+      return this.notifications.filter(notification => (notification as any).tag === filter.tag);
+    }
+    // Browsers return a snapshot of the displayed notifications
+    return this.notifications.slice();
   }
 
   showNotification(title, options) {
@@ -253,3 +253,126 @@ test('installWorker() installs Worker B and then A when Worker A exists', async
   t.is(spy.callCount, 4);
   spy.restore();
 });
+
+test('getActiveState() detects a composite worker by its configured path in compose mode', async t => {
+  await TestEnvironment.stubDomEnvironment();
+
+  navigator.serviceWorker.register('/pwa-worker.js');
+
+  const manager = new ServiceWorkerManager(null, {
+    workerAPath: new Path('/Worker-A.js'),
+    workerBPath: new Path('/Worker-B.js'),
+    registrationOptions: {
+      scope: '/'
+    },
+    compose: true,
+    composedWorkerPath: new Path('/pwa-worker.js')
+  });
+
+  t.is(await manager.getActiveState(), ServiceWorkerActiveState.Composite);
+});
+
+test('getActiveState() detects a composite worker replying to a version query in compose mode', async t => {
+  await TestEnvironment.stubDomEnvironment();
+
+  navigator.serviceWorker.register('/pwa-worker.js');
+
+  const queryStub = sinon.stub().resolves(10000);
+  const context: any = { workerMessenger: { queryWorkerVersion: queryStub } };
+  const manager = new ServiceWorkerManager(context, {
+    workerAPath: new Path('/Worker-A.js'),
+    workerBPath: new Path('/Worker-B.js'),
+    registrationOptions: {
+      scope: '/'
+    },
+    compose: true
+  });
+
+  t.is(await manager.getActiveState(), ServiceWorkerActiveState.Composite);
+  t.is(await manager.getActiveState(), ServiceWorkerActiveState.Composite);
+  t.true(queryStub.calledOnce);
+  const registration = await navigator.serviceWorker.getRegistration();
+  t.is(queryStub.getCall(0).args[0], registration.active);
+
+  queryStub.resolves(null);
+  const addEventListenerStub = sinon.stub(navigator.serviceWorker, 'addEventListener');
+  const otherManager = new ServiceWorkerManager(context, {
+    workerAPath: new Path('/Worker-A.js'),
+    workerBPath: new Path('/Worker-B.js'),
+    registrationOptions: {
+      scope: '/'
+    },
+    compose: true
+  });
+  t.is(await otherManager.getActiveState(), ServiceWorkerActiveState.ThirdParty);
+
+  // A worker that didn't reply isn't asked again until the controlling worker changes
+  queryStub.resolves(10000);
+  t.is(await otherManager.getActiveState(), ServiceWorkerActiveState.ThirdParty);
+  t.true(queryStub.calledTwice);
+
+  const controllerChangeListener = addEventListenerStub.getCalls()
+    .filter(call => call.args[0] === 'controllerchange')[0].args[1];
+  addEventListenerStub.restore();
+  controllerChangeListener();
+  t.is(await otherManager.getActiveState(), ServiceWorkerActiveState.Composite);
+  t.is(queryStub.callCount, 3);
+});
+
+test('installWorker() installs the composed worker without unregistering a third party worker in compose mode', async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  const context = new Context(appConfig);
+
+  await navigator.serviceWorker.register('/another-service-worker.js');
+  const registration = await navigator.serviceWorker.getRegistration();
+  const unregisterSpy = sinon.spy(registration, 'unregister');
+  const registerSpy = sinon.spy(navigator.serviceWorker, 'register');
+
+  const manager = new ServiceWorkerManager(context, {
+    workerAPath: new Path('/Worker-A.js'),
+    workerBPath: new Path('/Worker-B.js'),
+    registrationOptions: {
+      scope: '/'
+    },
+    compose: true,
+    composedWorkerPath: new Path('/pwa-worker.js')
+  });
+
+  await manager.installWorker();
+  t.false(unregisterSpy.called);
+  t.true(registerSpy.calledOnce);
+  t.true(registerSpy.calledWithExactly('/pwa-worker.js', { scope: '/' }));
+  t.is(await manager.getActiveState(), ServiceWorkerActiveState.Composite);
+  registerSpy.restore();
+});
+
+test('updateWorker() does not re-register a composite worker', async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  const context = new Context(appConfig);
+
+  navigator.serviceWorker.register('/pwa-worker.js');
+
+  const manager = new ServiceWorkerManager(context, {
+    workerAPath: new Path('/Worker-A.js'),
+    workerBPath: new Path('/Worker-B.js'),
+    registrationOptions: {
+      scope: '/'
+    },
+    compose: true,
+    composedWorkerPath: new Path('/pwa-worker.js')
+  });
+
+  const installWorkerSpy = sinon.spy(manager, 'installWorker');
+  await manager.updateWorker();
+  t.false(installWorkerSpy.called);
+});
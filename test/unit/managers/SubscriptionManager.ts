@@ -19,6 +19,12 @@ import { base64ToUint8Array } from '../../../src/utils/Encoding';
 import PushManager from '../../support/mocks/service-workers/models/PushManager';
 import PushSubscription from '../../support/mocks/service-workers/models/PushSubscription';
 import * as Browser from 'bowser';
+import OneSignalApi from '../../../src/OneSignalApi';
+import OneSignal from '../../../src/OneSignal';
+import EventHelper from '../../../src/helpers/EventHelper';
+import { UnsubscriptionStrategy } from '../../../src/models/UnsubscriptionStrategy';
+import { SubscriptionStateKind } from '../../../src/models/SubscriptionStateKind';
+import { NotificationPermission } from '../../../src/models/NotificationPermission';
 
 const VAPID_PUBLIC_KEY_1 = "BApIoaDI71cs0_CyqXYeXJNGrfIcFE_kl8Z-Z46f7T20lO8OtHYXzh3q9z-eXVmLd9ohXtwnBZ5GibCmxvysB2Q";
 const VAPID_PUBLIC_KEY_2 = "BLh-Qi0yJanQKiwICfQq25-Ei_ldA_M2egYPg4atuM-d8etfKivGxf9A0cvV6SRWyNa55d-ou6DMPQ0RS3PvH2c";
@@ -291,3 +297,106 @@ test("subscribeFcmVapidOrLegacyKey() unsubscribes if existing subscription is pr
   }
 });
 
+
+test("unsubscribe() with DestroySubscription removes the push subscription, mutes the player and clears the stored subscription", async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  const context = new Context(appConfig);
+
+  await navigator.serviceWorker.register('/worker.js');
+  const registration = await navigator.serviceWorker.getRegistration();
+  await context.subscriptionManager.subscribeFcmVapidOrLegacyKey(registration);
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  subscription.subscriptionToken = 'token';
+  await Database.setSubscription(subscription);
+
+  const updatePlayerStub = sinon.stub(OneSignalApi, 'updatePlayer').resolves({ success: true });
+  const subscriptionChangedStub = sinon.stub(EventHelper, 'checkAndTriggerSubscriptionChanged').resolves();
+  try {
+    await context.subscriptionManager.unsubscribe(UnsubscriptionStrategy.DestroySubscription);
+
+    t.is(await registration.pushManager.getSubscription(), null);
+    t.true(updatePlayerStub.calledOnce);
+    t.deepEqual(updatePlayerStub.getCall(0).args[2], { notification_types: SubscriptionStateKind.MutedByApi });
+    const { deviceId, subscriptionToken } = await Database.getSubscription();
+    t.is(deviceId.value, null);
+    t.falsy(subscriptionToken);
+  } finally {
+    updatePlayerStub.restore();
+    subscriptionChangedStub.restore();
+  }
+});
+
+test("getSubscriptionState() reports whether the stored token matches the live push subscription", async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  const context = new Context(appConfig);
+  OneSignal.context = context;
+
+  await navigator.serviceWorker.register('/worker.js');
+  const registration = await navigator.serviceWorker.getRegistration();
+  await context.subscriptionManager.subscribeFcmVapidOrLegacyKey(registration);
+  const pushSubscription = await registration.pushManager.getSubscription();
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  subscription.subscriptionToken = new URL(pushSubscription.endpoint).toString();
+  await Database.setSubscription(subscription);
+
+  let state = await context.subscriptionManager.getSubscriptionState();
+  t.is(state.deviceId, subscription.deviceId.value);
+  t.is(state.subscriptionToken, subscription.subscriptionToken);
+  t.false(state.optedOut);
+  t.true(state.tokenMatchesPushSubscription);
+
+  subscription.subscriptionToken = 'https://push.example.com/stale-token';
+  await Database.setSubscription(subscription);
+
+  state = await context.subscriptionManager.getSubscriptionState();
+  t.false(state.tokenMatchesPushSubscription);
+});
+
+test("checkPushSubscriptionDrift() re-registers a push subscription whose endpoint changed", async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https,
+    permission: NotificationPermission.Granted
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  const context = new Context(appConfig);
+  OneSignal.context = context;
+
+  await navigator.serviceWorker.register('/worker.js');
+  const registration = await navigator.serviceWorker.getRegistration();
+  await context.subscriptionManager.subscribeFcmVapidOrLegacyKey(registration);
+  const pushSubscription = await registration.pushManager.getSubscription();
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  subscription.subscriptionToken = 'https://push.example.com/rotated-token';
+  await Database.setSubscription(subscription);
+
+  const updateUserSessionStub = sinon.stub(OneSignalApi, 'updateUserSession').resolves(subscription.deviceId);
+  const subscriptionChangedStub = sinon.stub(EventHelper, 'checkAndTriggerSubscriptionChanged').resolves();
+  try {
+    await context.subscriptionManager.checkPushSubscriptionDrift();
+
+    t.true(updateUserSessionStub.calledOnce);
+    const { subscriptionToken } = await Database.getSubscription();
+    t.is(subscriptionToken, new URL(pushSubscription.endpoint).toString());
+  } finally {
+    updateUserSessionStub.restore();
+    subscriptionChangedStub.restore();
+  }
+});
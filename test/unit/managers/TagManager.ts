@@ -0,0 +1,140 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { TestEnvironment, HttpHttpsEnvironment } from '../../support/sdk/TestEnvironment';
+import OneSignal from '../../../src/OneSignal';
+import OneSignalApi from '../../../src/OneSignalApi';
+import Database from '../../../src/services/Database';
+import { AppConfig } from '../../../src/models/AppConfig';
+import { Uuid } from '../../../src/models/Uuid';
+import Context from '../../../src/models/Context';
+import ServiceUnavailableError from '../../../src/errors/ServiceUnavailableError';
+
+test.beforeEach(async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  OneSignal.context = new Context(appConfig);
+  await Database.setAppConfig(appConfig);
+});
+
+test.afterEach(t => {
+  if ((OneSignalApi.updatePlayer as any).restore) {
+    (OneSignalApi.updatePlayer as any).restore();
+  }
+});
+
+test('tag writes to the same key are coalesced while unregistered', async t => {
+  const updatePlayerSpy = sinon.stub(OneSignalApi, 'updatePlayer').resolves({ success: true });
+
+  await Database.putTagOperations({ level: '1', name: 'a' });
+  await Database.putTagOperations({ level: '2' });
+  await OneSignal.context.tagManager.flush();
+
+  t.false(updatePlayerSpy.called);
+  t.deepEqual(await OneSignal.context.tagManager.getPendingOperations(), { level: '2', name: 'a' });
+});
+
+test('queued tag writes are sent once registered and removed from the queue', async t => {
+  const updatePlayerSpy = sinon.stub(OneSignalApi, 'updatePlayer').resolves({ success: true });
+
+  await Database.putTagOperations({ level: '1' });
+  await OneSignal.context.tagManager.flush();
+  t.false(updatePlayerSpy.called);
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+  await OneSignal.context.tagManager.flush();
+
+  t.true(updatePlayerSpy.calledOnce);
+  t.deepEqual(updatePlayerSpy.getCall(0).args[2], { tags: { level: '1' } });
+  t.deepEqual(await OneSignal.context.tagManager.getPendingOperations(), {});
+});
+
+test('queued tag writes are kept when the request fails to reach OneSignal', async t => {
+  sinon.stub(OneSignalApi, 'updatePlayer').rejects(new TypeError('Failed to fetch'));
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+
+  await Database.putTagOperations({ level: '1' });
+  await OneSignal.context.tagManager.flush();
+
+  t.deepEqual(await OneSignal.context.tagManager.getPendingOperations(), { level: '1' });
+});
+
+test('queued tag writes are kept when OneSignal is unavailable or its response is unreadable', async t => {
+  const updatePlayerStub = sinon.stub(OneSignalApi, 'updatePlayer');
+  updatePlayerStub.onFirstCall().rejects(new ServiceUnavailableError('The request failed with status 503.'));
+  updatePlayerStub.onSecondCall().rejects(new SyntaxError('Unexpected token < in JSON at position 0'));
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+
+  await Database.putTagOperations({ level: '1' });
+  await OneSignal.context.tagManager.flush();
+  t.deepEqual(await OneSignal.context.tagManager.getPendingOperations(), { level: '1' });
+  await OneSignal.context.tagManager.flush();
+  t.deepEqual(await OneSignal.context.tagManager.getPendingOperations(), { level: '1' });
+});
+
+test('queued tag writes are dropped and rejected when OneSignal rejects them', async t => {
+  const rejection = { errors: ['Tags must be strings.'] };
+  sinon.stub(OneSignalApi, 'updatePlayer').rejects(rejection);
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+
+  const error = await t.throws(OneSignal.context.tagManager.sendTags({ level: '1' }));
+  t.is(error, rejection);
+  t.deepEqual(await OneSignal.context.tagManager.getPendingOperations(), {});
+});
+
+test('pending tag writes are rejected when the queue fails to be sent', async t => {
+  const getSubscriptionStub = sinon.stub(Database, 'getSubscription');
+  getSubscriptionStub.onFirstCall().resolves({});
+  getSubscriptionStub.rejects(new Error('The database is unavailable.'));
+  try {
+    await t.throws(OneSignal.context.tagManager.sendTags({ level: '1' }), 'The database is unavailable.');
+    await t.notThrows(OneSignal.context.tagManager.flush());
+  } finally {
+    getSubscriptionStub.restore();
+  }
+});
+
+test('tags are read from the cache once fetched unless a refresh is requested', async t => {
+  const getPlayerSpy = sinon.stub(OneSignalApi, 'getPlayer').resolves({ tags: { level: '1' } });
+  const { appId } = await Database.getAppConfig();
+  const deviceId = Uuid.generate();
+
+  t.deepEqual(await OneSignal.context.tagManager.getTags(appId, deviceId, false), { level: '1' });
+  t.deepEqual(await OneSignal.context.tagManager.getTags(appId, deviceId, false), { level: '1' });
+  t.true(getPlayerSpy.calledOnce);
+
+  await OneSignal.context.tagManager.getTags(appId, deviceId, true);
+  t.true(getPlayerSpy.calledTwice);
+  getPlayerSpy.restore();
+});
+
+test('only tags whose values differ from the cache are sent', async t => {
+  const updatePlayerSpy = sinon.stub(OneSignalApi, 'updatePlayer').resolves({ success: true });
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+  await Database.setCachedTags(subscription.deviceId, { level: '1', name: 'a' });
+
+  await OneSignal.context.tagManager.sendTags({ level: 1, name: 'b', removed: '' });
+  await OneSignal.context.tagManager.sendTags({ level: '1' });
+
+  t.true(updatePlayerSpy.calledOnce);
+  t.deepEqual(updatePlayerSpy.getCall(0).args[2], { tags: { name: 'b' } });
+  t.deepEqual(await Database.getCachedTags(subscription.deviceId), { level: '1', name: 'b' });
+});
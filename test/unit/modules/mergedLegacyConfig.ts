@@ -142,3 +142,14 @@ test('should assign downloaded safari web ID if not provided', async t => {
   const result = InitHelper.getMergedUserServerAppConfig({}, t.context.serverConfig);
   t.is(result.safariWebId, t.context.serverConfig.safariWebId);
 });
+
+test('should only use the downloaded webhook secret', async t => {
+  t.context.serverConfig.webhookSecret = 'server-secret';
+  const result = InitHelper.getMergedUserServerAppConfig(
+    {
+      webhooks: { secret: 'page-secret' }
+    } as any,
+    t.context.serverConfig
+  );
+  t.is(result.webhookSecret, 'server-secret');
+});
@@ -0,0 +1,23 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import {TestEnvironment} from "../../support/sdk/TestEnvironment";
+import OneSignal from "../../../src/OneSignal";
+import Database from "../../../src/services/Database";
+import { InvalidArgumentError } from "../../../src/errors/InvalidArgumentError";
+
+
+test("setBadgeCount should store the unread count returned by getBadgeCount", async t => {
+  await TestEnvironment.initialize();
+  t.is(await OneSignal.getBadgeCount(), 0);
+
+  await OneSignal.setBadgeCount(3);
+  t.is(await Database.getBadgeCount(), 3);
+  t.is(await OneSignal.getBadgeCount(), 3);
+});
+
+test("setBadgeCount should reject counts that aren't non-negative integers", async t => {
+  await TestEnvironment.initialize();
+  await t.throws(OneSignal.setBadgeCount(-1), InvalidArgumentError);
+  await t.throws(OneSignal.setBadgeCount(1.5), InvalidArgumentError);
+  await t.throws(OneSignal.setBadgeCount('2' as any), InvalidArgumentError);
+});
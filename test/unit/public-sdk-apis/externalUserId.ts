@@ -0,0 +1,26 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import {TestEnvironment} from "../../support/sdk/TestEnvironment";
+import OneSignal from "../../../src/OneSignal";
+import Database from "../../../src/services/Database";
+import { InvalidArgumentError } from '../../../src/errors/InvalidArgumentError';
+
+
+test("setExternalUserId should store the ID until the user is registered", async t => {
+  await TestEnvironment.initialize();
+  await OneSignal.setExternalUserId('account-1234');
+  t.is(await Database.get<string>('Options', 'externalUserId'), 'account-1234');
+  t.is(await OneSignal.getExternalUserId(), 'account-1234');
+});
+
+test("removeExternalUserId should clear the stored ID", async t => {
+  await TestEnvironment.initialize();
+  await OneSignal.setExternalUserId('account-1234');
+  await OneSignal.removeExternalUserId();
+  t.is(await OneSignal.getExternalUserId(), null);
+});
+
+test("setExternalUserId should reject an empty ID", async t => {
+  await TestEnvironment.initialize();
+  await t.throws(OneSignal.setExternalUserId(''), InvalidArgumentError);
+});
@@ -0,0 +1,40 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import * as sinon from "sinon";
+import {TestEnvironment} from "../../support/sdk/TestEnvironment";
+import OneSignal from "../../../src/OneSignal";
+import Database from "../../../src/services/Database";
+import Environment from "../../../src/Environment";
+import SubscriptionHelper from "../../../src/helpers/SubscriptionHelper";
+import SdkEnvironment from "../../../src/managers/SdkEnvironment";
+import { TestEnvironmentKind } from "../../../src/models/TestEnvironmentKind";
+
+
+test("getDebugInfo should report the duplicate notifications dropped by the service worker", async t => {
+  await TestEnvironment.initialize();
+  t.deepEqual(await OneSignal.getDebugInfo(), {
+    sdkVersion: Environment.version(),
+    duplicateNotificationsDropped: 0
+  });
+
+  await Database.put('Options', { key: 'duplicateNotificationsDropped', value: 2 });
+  t.is((await OneSignal.getDebugInfo()).duplicateNotificationsDropped, 2);
+});
+
+test.serial("getDebugInfo should read the service worker's counter through the proxy frame on HTTP sites", async t => {
+  await TestEnvironment.initialize();
+  const isUsingSubscriptionWorkaroundStub = sinon.stub(SubscriptionHelper, 'isUsingSubscriptionWorkaround').returns(true);
+  const getTestEnvStub = sinon.stub(SdkEnvironment, 'getTestEnv').returns(TestEnvironmentKind.None);
+  const messageStub = sinon.stub().callsFake((command, data, onReply) => onReply({ data: [3] }));
+  OneSignal.proxyFrameHost = { message: messageStub } as any;
+  try {
+    t.is((await OneSignal.getDebugInfo()).duplicateNotificationsDropped, 3);
+    const [command, retrievals] = messageStub.getCall(0).args;
+    t.is(command, OneSignal.POSTMAM_COMMANDS.REMOTE_DATABASE_GET);
+    t.deepEqual(retrievals, [{ table: 'Options', key: 'duplicateNotificationsDropped' }]);
+  } finally {
+    isUsingSubscriptionWorkaroundStub.restore();
+    getTestEnvStub.restore();
+    OneSignal.proxyFrameHost = undefined;
+  }
+});
@@ -0,0 +1,73 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import * as sinon from 'sinon';
+import { TestEnvironment } from "../../support/sdk/TestEnvironment";
+import OneSignal from "../../../src/OneSignal";
+import OneSignalApi from "../../../src/OneSignalApi";
+import InitHelper from "../../../src/helpers/InitHelper";
+import { AppConfig } from "../../../src/models/AppConfig";
+import { Uuid } from "../../../src/models/Uuid";
+import { awaitOneSignalInitAndSupported } from "../../../src/utils";
+import { InvalidArgumentError } from "../../../src/errors/InvalidArgumentError";
+
+test.beforeEach(async t => {
+  await TestEnvironment.initialize();
+  OneSignal._requiresUserPrivacyConsent = true;
+  OneSignal._userConsentGiven = false;
+});
+
+test.afterEach(t => {
+  OneSignal._requiresUserPrivacyConsent = false;
+  OneSignal._userConsentGiven = false;
+});
+
+test("public API calls wait until consent is provided", async t => {
+  let resolved = false;
+  const called = awaitOneSignalInitAndSupported().then(() => resolved = true);
+  await new Promise(resolve => setTimeout(resolve, 10));
+  t.false(resolved);
+
+  await OneSignal.provideUserConsent(true);
+  await called;
+  t.true(resolved);
+});
+
+test("OneSignal API requests are not made until consent is provided", async t => {
+  const fetchStub = sinon.stub(global, 'fetch').resolves({
+    status: 200,
+    json: () => Promise.resolve({ success: true })
+  });
+  try {
+    const request = OneSignalApi.get('players/id');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    t.false(fetchStub.called);
+
+    await OneSignal.provideUserConsent(true);
+    t.deepEqual(await request, { success: true });
+    t.true(fetchStub.calledOnce);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test.serial("the app config is not downloaded until consent is provided", async t => {
+  const appId = Uuid.generate();
+  const serverConfig = new AppConfig();
+  serverConfig.appId = appId;
+  const getAppConfigStub = sinon.stub(OneSignalApi, 'getAppConfig').resolves(serverConfig);
+  try {
+    const download = InitHelper.downloadAndMergeAppConfig({ appId: appId.value });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    t.false(getAppConfigStub.called);
+
+    await OneSignal.provideUserConsent(true);
+    t.is((await download).appId.value, appId.value);
+    t.true(getAppConfigStub.calledOnce);
+  } finally {
+    getAppConfigStub.restore();
+  }
+});
+
+test("provideUserConsent rejects non-boolean values", async t => {
+  await t.throws(OneSignal.provideUserConsent("yes" as any), InvalidArgumentError);
+});
@@ -0,0 +1,45 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import * as sinon from "sinon";
+import {TestEnvironment} from "../../support/sdk/TestEnvironment";
+import OneSignal from "../../../src/OneSignal";
+import OneSignalApi from "../../../src/OneSignalApi";
+import Database from "../../../src/services/Database";
+import { AppConfig } from "../../../src/models/AppConfig";
+import { Uuid } from "../../../src/models/Uuid";
+import { InvalidArgumentError } from '../../../src/errors/InvalidArgumentError';
+
+
+async function initializeSubscribed() {
+  await TestEnvironment.initialize();
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  await Database.setAppConfig(appConfig);
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+}
+
+test("sendSelfNotification should send the badge as chrome_web_badge", async t => {
+  await initializeSubscribed();
+  const postStub = sinon.stub(OneSignalApi, 'post').resolves({ id: Uuid.generate().value });
+  try {
+    await OneSignal.sendSelfNotification('Title', 'Message', 'https://site.com', undefined, undefined, undefined, {
+      badge: 'https://site.com/badge.png'
+    });
+    t.true(postStub.calledOnce);
+    const [action, params] = postStub.getCall(0).args;
+    t.is(action, 'notifications');
+    t.is(params.chrome_web_badge, 'https://site.com/badge.png');
+    t.deepEqual(Object.keys(params).filter(key => key.indexOf('web_') === 0), []);
+  } finally {
+    postStub.restore();
+  }
+});
+
+test("sendSelfNotification should reject a badge that isn't an HTTPS URL", async t => {
+  await initializeSubscribed();
+  await t.throws(OneSignal.sendSelfNotification('Title', 'Message', 'https://site.com', undefined, undefined,
+                                                undefined, { badge: 'http://site.com/badge.png' }),
+                 InvalidArgumentError);
+});
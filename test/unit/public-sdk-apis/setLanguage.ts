@@ -0,0 +1,21 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import {TestEnvironment} from "../../support/sdk/TestEnvironment";
+import OneSignal from "../../../src/OneSignal";
+import Database from "../../../src/services/Database";
+import { InvalidArgumentError } from '../../../src/errors/InvalidArgumentError';
+
+
+test("setLanguage should store the language until it is cleared", async t => {
+  await TestEnvironment.initialize();
+  await OneSignal.setLanguage('de');
+  t.is(await Database.getLanguage(), 'de');
+  await OneSignal.setLanguage(null);
+  t.is(await Database.getLanguage(), null);
+});
+
+test("setLanguage should reject an empty or malformed language", async t => {
+  await TestEnvironment.initialize();
+  await t.throws(OneSignal.setLanguage(''), InvalidArgumentError);
+  await t.throws(OneSignal.setLanguage(42 as any), InvalidArgumentError);
+});
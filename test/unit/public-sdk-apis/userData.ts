@@ -0,0 +1,54 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import * as sinon from 'sinon';
+import { TestEnvironment, HttpHttpsEnvironment } from "../../support/sdk/TestEnvironment";
+import OneSignal from "../../../src/OneSignal";
+import OneSignalApi from "../../../src/OneSignalApi";
+import Database from "../../../src/services/Database";
+import { AppConfig } from "../../../src/models/AppConfig";
+import Context from "../../../src/models/Context";
+import { Uuid } from "../../../src/models/Uuid";
+import { ServiceWorkerActiveState } from "../../../src/managers/ServiceWorkerManager";
+
+test.beforeEach(async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  OneSignal.context = new Context(appConfig);
+  await Database.setAppConfig(appConfig);
+});
+
+test("exportUserData includes stored tables and no player for unregistered users", async t => {
+  await Database.put('Options', { key: 'defaultTitle', value: 'My Site' });
+
+  const userData = await OneSignal.exportUserData();
+
+  t.is(userData.options['defaultTitle'].value, 'My Site');
+  t.is(userData.appState.defaultNotificationTitle, 'My Site');
+  t.is(userData.player, null);
+});
+
+test("eraseUserData deletes the player and wipes stored data", async t => {
+  const deletePlayerStub = sinon.stub(OneSignalApi, 'deletePlayer').resolves({ success: true });
+  const activeStateStub = sinon.stub(OneSignal.context.serviceWorkerManager, 'getActiveState')
+    .resolves(ServiceWorkerActiveState.None);
+  try {
+    const subscription = await Database.getSubscription();
+    subscription.deviceId = Uuid.generate();
+    await Database.setSubscription(subscription);
+    await Database.setExternalUserId('my-user');
+
+    await OneSignal.eraseUserData();
+
+    t.true(deletePlayerStub.calledOnce);
+    t.is(deletePlayerStub.getCall(0).args[1].value, subscription.deviceId.value);
+    t.is((await Database.getSubscription()).deviceId.value, null);
+    t.falsy(await Database.getExternalUserId());
+  } finally {
+    deletePlayerStub.restore();
+    activeStateStub.restore();
+  }
+});
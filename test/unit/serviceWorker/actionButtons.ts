@@ -0,0 +1,88 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { WorkerMessengerCommand } from '../../../src/libraries/WorkerMessenger';
+
+function createNotification(): any {
+  return {
+    id: 'id',
+    url: 'https://site.com/inbox/42',
+    buttons: [
+      { action: 'reply', title: 'Reply', url: 'https://site.com/inbox/42/reply' },
+      { action: 'archive', title: 'Archive', behavior: 'webhook', webhook: 'https://site.com/archive' },
+      { action: 'read', title: 'Mark as read', behavior: 'markAsRead' },
+      { action: 'snooze', title: 'Snooze', behavior: 'dismiss' }
+    ]
+  };
+}
+
+function createClickEvent(action: string): any {
+  const notification = createNotification();
+  notification.action = action;
+  return { action: action, notification: { data: notification, close: () => {} } };
+}
+
+test(`action button behaviors are mapped from the push payload`, async t => {
+  const notification = ServiceWorker.buildStructuredNotificationObject({
+    title: 'Title',
+    alert: 'Body',
+    custom: { i: 'id' },
+    o: [{ i: 'archive', n: 'Archive', b: 'webhook', w: 'https://site.com/archive' }]
+  });
+  t.is(notification.buttons[0].behavior, 'webhook');
+  t.is(notification.buttons[0].webhook, 'https://site.com/archive');
+});
+
+test(`a button that opens a window opens its own URL`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const notification = createNotification();
+  notification.action = 'reply';
+  t.is(await ServiceWorker.getNotificationUrlToOpen(notification), 'https://site.com/inbox/42/reply');
+});
+
+test.serial(`button behaviors are performed without opening a window`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const openUrlStub = sinon.stub(ServiceWorker, 'openUrl').resolves();
+  const sendWebhookStub = sinon.stub(ServiceWorker, 'sendWebhook').resolves();
+  const sendNotificationOpenedStub = sinon.stub(ServiceWorker, 'sendNotificationOpened').resolves();
+  try {
+    await ServiceWorker.onNotificationClicked(createClickEvent('archive'));
+    t.true(sendWebhookStub.calledWith('notification.actionButton', 'https://site.com/archive'));
+    t.true(sendNotificationOpenedStub.calledOnce);
+
+    await ServiceWorker.onNotificationClicked(createClickEvent('read'));
+    t.true(sendNotificationOpenedStub.calledTwice);
+
+    await ServiceWorker.onNotificationClicked(createClickEvent('snooze'));
+    t.true(sendNotificationOpenedStub.calledTwice);
+
+    t.false(openUrlStub.called);
+  } finally {
+    openUrlStub.restore();
+    sendWebhookStub.restore();
+    sendNotificationOpenedStub.restore();
+  }
+});
+
+test.serial(`the focused page is asked to run the action button's handler`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const focusedClient = { url: 'https://site.com/', focused: true };
+  const getActiveClientsStub = sinon.stub(ServiceWorker, 'getActiveClients')
+    .resolves([{ url: 'https://site.com/other', focused: false }, focusedClient]);
+  const unicastStub = sinon.stub(ServiceWorker.workerMessenger, 'unicast');
+  const sendNotificationOpenedStub = sinon.stub(ServiceWorker, 'sendNotificationOpened').resolves();
+  try {
+    await ServiceWorker.onNotificationClicked(createClickEvent('snooze'));
+    t.true(unicastStub.calledOnce);
+    const [command, notification, client] = unicastStub.getCall(0).args;
+    t.is(command, WorkerMessengerCommand.ActionButtonClicked);
+    t.is(notification.action, 'snooze');
+    t.is(client, focusedClient);
+  } finally {
+    getActiveClientsStub.restore();
+    unicastStub.restore();
+    sendNotificationOpenedStub.restore();
+  }
+});
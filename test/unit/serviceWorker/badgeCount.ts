@@ -0,0 +1,73 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import Database from '../../../src/services/Database';
+import { Uuid } from '../../../src/models/Uuid';
+
+function createCloseEvent(notification): any {
+  const event = {
+    notification: { data: notification },
+    waitUntil: promise => event.promise = promise,
+    promise: undefined
+  };
+  return event;
+}
+
+test.serial(`the badge count goes up on display and down on dismiss`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  const setAppBadgeStub = sinon.stub();
+  const clearAppBadgeStub = sinon.stub();
+  (navigator as any).setAppBadge = setAppBadgeStub;
+  (navigator as any).clearAppBadge = clearAppBadgeStub;
+  const executeWebhooksStub = sinon.stub(ServiceWorker, 'executeWebhooks').resolves();
+  try {
+    await ServiceWorker.displayReceivedNotification({ id: 'first', content: 'First', tag: 'first' });
+    await ServiceWorker.displayReceivedNotification({ id: 'second', content: 'Second', tag: 'second' });
+    t.is(await Database.getBadgeCount(), 2);
+    t.true(setAppBadgeStub.calledWith(2));
+
+    const closeEvent = createCloseEvent({ id: 'first' });
+    ServiceWorker.onNotificationClosed(closeEvent);
+    await closeEvent.promise;
+    t.is(await Database.getBadgeCount(), 1);
+    t.true(setAppBadgeStub.calledWith(1));
+
+    await ServiceWorker.changeBadgeCount(-5);
+    t.is(await Database.getBadgeCount(), 0);
+    t.true(clearAppBadgeStub.calledOnce);
+  } finally {
+    delete (navigator as any).setAppBadge;
+    delete (navigator as any).clearAppBadge;
+    executeWebhooksStub.restore();
+  }
+});
+
+test.serial(`a notification replacing one with the same tag doesn't add to the badge count`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await ServiceWorker.displayNotification({ id: 'first', content: 'Score: 0-0', tag: 'match' });
+  await ServiceWorker.displayNotification({ id: 'second', content: 'Score: 1-0', tag: 'match' });
+  t.is(await Database.getBadgeCount(), 1);
+
+  await ServiceWorker.displayNotification({ id: 'third', content: 'Hi', group: 'chat' });
+  await ServiceWorker.displayNotification({ id: 'fourth', content: 'Hello?', group: 'chat' });
+  t.is(await Database.getBadgeCount(), 3);
+});
+
+test(`a summary notification counts every notification it stands for`, async t => {
+  t.is(ServiceWorker.getUnreadNotificationCount({ id: 'id' }), 1);
+  t.is(ServiceWorker.getUnreadNotificationCount({
+    id: 'third',
+    groupedNotifications: [{ id: 'first' }, { id: 'second' }, { id: 'third' }]
+  }), 3);
+  t.is(ServiceWorker.getUnreadNotificationCount({
+    groupedNotifications: [{ id: 'first' }, { id: 'second' }],
+    data: { __isOneSignalDigestNotification: true }
+  }), 2);
+  t.is(ServiceWorker.getUnreadNotificationCount({ data: { __isOneSignalBackupNotification: true } }), 0);
+});
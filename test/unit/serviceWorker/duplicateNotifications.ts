@@ -0,0 +1,68 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { WorkerMessengerCommand } from '../../../src/libraries/WorkerMessenger';
+import Database from '../../../src/services/Database';
+import { Uuid } from '../../../src/models/Uuid';
+
+test(`a notification pushed twice is only displayed once`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  const broadcastStub = sinon.stub(ServiceWorker.workerMessenger, 'broadcast').resolves();
+  try {
+    await Promise.all([
+      ServiceWorker.displayReceivedNotification({ id: 'id', content: 'Body' }),
+      ServiceWorker.displayReceivedNotification({ id: 'id', content: 'Body' })
+    ]);
+    const notifications = await (self as any).registration.getNotifications();
+    t.is(notifications.length, 1);
+    t.true(broadcastStub.calledOnce);
+    t.is(broadcastStub.getCall(0).args[0], WorkerMessengerCommand.NotificationDisplayed);
+    t.is(await Database.get<number>('Options', 'duplicateNotificationsDropped'), 1);
+  } finally {
+    broadcastStub.restore();
+  }
+});
+
+test(`only the most recently received notification IDs are kept`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  for (let i = 0; i <= ServiceWorker.RECENT_NOTIFICATION_IDS_LIMIT; i++) {
+    t.false(await ServiceWorker.isDuplicateNotification({ id: `notification-${i}` }));
+  }
+  const recentIds = await Database.getRecentNotificationIds();
+  t.is(recentIds.length, ServiceWorker.RECENT_NOTIFICATION_IDS_LIMIT);
+  t.is(recentIds[0], 'notification-1');
+  t.false(await ServiceWorker.isDuplicateNotification({ id: 'notification-0' }));
+});
+
+test(`a duplicate push shows the generic notification if the first copy is no longer displayed`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await ServiceWorker.displayReceivedNotification({ id: 'id', content: 'Body' });
+  const [displayed] = await (self as any).registration.getNotifications();
+  displayed.close();
+
+  await ServiceWorker.displayReceivedNotification({ id: 'id', content: 'Body' });
+  const notifications = await (self as any).registration.getNotifications();
+  t.is(notifications.length, 1);
+  t.true(notifications[0].data.__isOneSignalBackupNotification);
+});
+
+test(`a notification that failed to display isn't a duplicate when pushed again`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  const displayNotificationStub = sinon.stub(ServiceWorker, 'displayNotification').rejects(new Error('Failed'));
+  try {
+    await t.throws(ServiceWorker.displayReceivedNotification({ id: 'id', content: 'Body' }));
+  } finally {
+    displayNotificationStub.restore();
+  }
+  t.is((await Database.getRecentNotificationIds()).indexOf('id'), -1);
+  await ServiceWorker.displayReceivedNotification({ id: 'id', content: 'Body' });
+  t.is((await (self as any).registration.getNotifications()).length, 1);
+});
@@ -0,0 +1,126 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import Database from '../../../src/services/Database';
+import FrequencyCapHelper from '../../../src/helpers/FrequencyCapHelper';
+import { FrequencyCapOutcome } from '../../../src/models/FrequencyCap';
+import { Uuid } from '../../../src/models/Uuid';
+
+const NOW = new Date(2017, 10, 1, 12, 0).getTime();
+const MINUTE_IN_MS = 60 * 1000;
+
+test(`findExceededCap counts only displayed notifications within each window`, async t => {
+  const displayLog = [
+    { id: '1', timestamp: NOW - 23 * 60 * MINUTE_IN_MS, outcome: FrequencyCapOutcome.Displayed },
+    { id: '2', timestamp: NOW - 30 * MINUTE_IN_MS, outcome: FrequencyCapOutcome.Displayed, category: 'sports' },
+    { id: '3', timestamp: NOW - 10 * MINUTE_IN_MS, outcome: FrequencyCapOutcome.Dropped, category: 'sports' },
+  ];
+
+  t.is(FrequencyCapHelper.findExceededCap({ perHour: 2 }, displayLog, undefined, NOW), null);
+  t.deepEqual(FrequencyCapHelper.findExceededCap({ perHour: 1 }, displayLog, undefined, NOW), {
+    cap: 'perHour',
+    limit: 1,
+    outcome: FrequencyCapOutcome.Collapsed
+  });
+  t.deepEqual(FrequencyCapHelper.findExceededCap({ perDay: 2, overCap: 'drop' }, displayLog, undefined, NOW), {
+    cap: 'perDay',
+    limit: 2,
+    outcome: FrequencyCapOutcome.Dropped
+  });
+  t.deepEqual(FrequencyCapHelper.findExceededCap({ perCategory: { sports: 1 } }, displayLog, 'sports', NOW), {
+    cap: 'perCategory',
+    limit: 1,
+    category: 'sports',
+    outcome: FrequencyCapOutcome.Collapsed
+  });
+  t.is(FrequencyCapHelper.findExceededCap({ perCategory: { sports: 1 } }, displayLog, 'news', NOW), null);
+});
+
+test(`pruneDisplayLog removes entries older than a day`, async t => {
+  const displayLog = [
+    { id: '1', timestamp: NOW - 25 * 60 * MINUTE_IN_MS, outcome: FrequencyCapOutcome.Displayed },
+    { id: '2', timestamp: NOW - MINUTE_IN_MS, outcome: FrequencyCapOutcome.Displayed },
+  ];
+  t.deepEqual(FrequencyCapHelper.pruneDisplayLog(displayLog, NOW).map(entry => entry.id), ['2']);
+});
+
+test(`notifications over a cap are collapsed into a summary and reported to the displayed webhook`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.put('Options', { key: 'frequencyCaps', value: { perHour: 1 } });
+  const executeWebhooksStub = sinon.stub(ServiceWorker, 'executeWebhooks').resolves();
+  try {
+    await ServiceWorker.displayReceivedNotification({ id: 'first', content: 'First' });
+    await ServiceWorker.displayReceivedNotification({ id: 'second', content: 'Second' });
+
+    const notifications = await (self as any).registration.getNotifications();
+    t.deepEqual(notifications.map(n => n.body), ['First', 'You have 1 more new notification.']);
+
+    const displayLog = await Database.getDisplayLog();
+    t.deepEqual(displayLog.map(entry => entry.outcome), [FrequencyCapOutcome.Displayed, FrequencyCapOutcome.Collapsed]);
+
+    t.true(executeWebhooksStub.calledTwice);
+    const [event, droppedNotification] = executeWebhooksStub.getCall(1).args;
+    t.is(event, 'notification.displayed');
+    t.is(droppedNotification.id, 'second');
+    t.is(droppedNotification.frequencyCap.cap, 'perHour');
+  } finally {
+    executeWebhooksStub.restore();
+  }
+});
+
+test.serial(`notifications a plugin suppresses don't count toward the caps`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.put('Options', { key: 'frequencyCaps', value: { perHour: 1 } });
+  ServiceWorker.plugins = [];
+  ServiceWorker.use({ beforeDisplay: options => false });
+  try {
+    t.false(await ServiceWorker.displayNotification({ id: 'suppressed', content: 'Suppressed' }));
+    t.deepEqual(await Database.getDisplayLog(), []);
+  } finally {
+    ServiceWorker.plugins = [];
+  }
+
+  t.true(await ServiceWorker.displayNotification({ id: 'shown', content: 'Shown' }));
+  const displayLog = await Database.getDisplayLog();
+  t.deepEqual(displayLog.map(entry => entry.outcome), [FrequencyCapOutcome.Displayed]);
+});
+
+test(`a dropped notification is replaced by the generic notification if none is displayed`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.put('Options', { key: 'frequencyCaps', value: { perHour: 0, overCap: 'drop' } });
+
+  await ServiceWorker.displayReceivedNotification({ id: 'dropped', content: 'Dropped' });
+
+  const notifications = await (self as any).registration.getNotifications();
+  t.deepEqual(notifications.map(n => n.body), ['You have new updates.']);
+  const displayLog = await Database.getDisplayLog();
+  t.deepEqual(displayLog.map(entry => entry.outcome), [FrequencyCapOutcome.Dropped]);
+});
+
+test(`the summary of collapsed notifications uses the site's summary text in the user's language`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.setLanguage('de');
+  await Database.put('Options', {
+    key: 'frequencyCaps',
+    value: {
+      perHour: 1,
+      summaryText: { en: 'You have {count} more new notifications.', de: 'Weitere Benachrichtigungen: {count}' }
+    }
+  });
+
+  await ServiceWorker.displayNotification({ id: 'first', content: 'First' });
+  await ServiceWorker.displayNotification({ id: 'second', content: 'Second' });
+
+  const notifications = await (self as any).registration.getNotifications();
+  t.deepEqual(notifications.map(n => n.body), ['First', 'Weitere Benachrichtigungen: 1']);
+});
@@ -0,0 +1,62 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { WorkerMessengerCommand } from '../../../src/libraries/WorkerMessenger';
+import Database from '../../../src/services/Database';
+
+function createClient(url: string): any {
+  return { url: url, focus: sinon.stub().resolves(), navigate: sinon.stub().resolves() };
+}
+
+test.serial(`a tab whose navigation handler accepts the navigation isn't reloaded`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.put('Options', { key: 'inPageNavigation', value: true });
+  const client = createClient('https://site.com/inbox');
+  const unicastStub = sinon.stub(ServiceWorker.workerMessenger, 'unicast').callsFake((command, payload: any) => {
+    if (command === WorkerMessengerCommand.NavigatePage) {
+      ServiceWorker.onInPageNavigationHandled(payload.id);
+    }
+  });
+  try {
+    await ServiceWorker.navigateClient(client, 'https://site.com/inbox/42', { id: 'id' });
+    t.is(unicastStub.getCall(0).args[1].url, 'https://site.com/inbox/42');
+    t.true(unicastStub.calledWith(WorkerMessengerCommand.NotificationClicked, { id: 'id' }, client));
+    t.true(client.focus.calledOnce);
+    t.false(client.navigate.called);
+    t.is(await Database.get('NotificationOpened', 'https://site.com/inbox/42'), null);
+  } finally {
+    unicastStub.restore();
+  }
+});
+
+test.serial(`the tab is reloaded if no navigation handler accepts in time`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.put('Options', { key: 'inPageNavigation', value: true });
+  const client = createClient('https://site.com/inbox');
+  const unicastStub = sinon.stub(ServiceWorker.workerMessenger, 'unicast');
+  const timeout = ServiceWorker.IN_PAGE_NAVIGATION_TIMEOUT;
+  ServiceWorker.IN_PAGE_NAVIGATION_TIMEOUT = 10;
+  try {
+    await ServiceWorker.navigateClient(client, 'https://site.com/inbox/42', { id: 'id' });
+    t.true(client.navigate.calledWith('https://site.com/inbox/42'));
+    t.false(unicastStub.calledWith(WorkerMessengerCommand.NotificationClicked));
+  } finally {
+    ServiceWorker.IN_PAGE_NAVIGATION_TIMEOUT = timeout;
+    unicastStub.restore();
+  }
+});
+
+test.serial(`tabs are reloaded without asking the page unless in-page navigation is enabled`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const client = createClient('https://site.com/inbox');
+  const unicastStub = sinon.stub(ServiceWorker.workerMessenger, 'unicast');
+  try {
+    await ServiceWorker.navigateClient(client, 'https://site.com/inbox/42', { id: 'id' });
+    t.false(unicastStub.called);
+    t.true(client.navigate.calledWith('https://site.com/inbox/42'));
+  } finally {
+    unicastStub.restore();
+  }
+});
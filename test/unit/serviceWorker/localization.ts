@@ -0,0 +1,53 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import LocalizationHelper from '../../../src/helpers/LocalizationHelper';
+import Database from '../../../src/services/Database';
+import { Uuid } from '../../../src/models/Uuid';
+
+test(`selectVariant picks the most preferred available language`, async t => {
+  const title = { en: 'Hello', de: 'Hallo', 'pt-BR': 'Olá' };
+  t.is(LocalizationHelper.selectVariant(title, ['de', 'en']), 'Hallo');
+  t.is(LocalizationHelper.selectVariant(title, ['de-AT', 'en']), 'Hallo');
+  t.is(LocalizationHelper.selectVariant(title, ['pt-br']), 'Olá');
+  t.is(LocalizationHelper.selectVariant(title, ['fr', 'en']), 'Hello');
+  t.is(LocalizationHelper.selectVariant({ es: 'Hola', de: 'Hallo' }, ['fr']), 'Hola');
+  t.is(LocalizationHelper.selectVariant('Hello', ['de']), 'Hello');
+});
+
+test(`received notifications are displayed in the language set for the user`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.setLanguage('de');
+
+  await ServiceWorker.displayReceivedNotification({
+    id: 'id',
+    heading: { en: 'Hello', de: 'Hallo' },
+    content: { en: 'Welcome back', de: 'Willkommen zurück' },
+    buttons: [{ action: 'read', title: { en: 'Read', de: 'Lesen' } }]
+  });
+  const [notification] = await (self as any).registration.getNotifications();
+  t.is(notification.title, 'Hallo');
+  t.is(notification.body, 'Willkommen zurück');
+  t.is(notification.data.buttons[0].title, 'Lesen');
+});
+
+test(`the site's fallback languages are used when the user's language is unavailable`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.setLanguage('fr');
+  await Database.put('Options', { key: 'languageFallbacks', value: ['de', 'en'] });
+
+  const notification: any = { heading: { en: 'Hello', de: 'Hallo' } };
+  await ServiceWorker.localizeNotification(notification);
+  t.is(notification.heading, 'Hallo');
+});
+
+test(`localizeText fills in the placeholders of the variant in the user's language`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.setLanguage('de');
+  const text = { en: '{count} new messages from {group}', de: '{count} neue Nachrichten von {group}' };
+  t.is(await LocalizationHelper.localizeText(text, { count: 3, group: 'Alice' }), '3 neue Nachrichten von Alice');
+  t.is(await LocalizationHelper.localizeText('{count} new {unknown}', { count: 3 }), '3 new {unknown}');
+});
@@ -0,0 +1,88 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import NotificationClickRouteHelper from '../../../src/helpers/NotificationClickRouteHelper';
+import { WorkerMessengerCommand } from '../../../src/libraries/WorkerMessenger';
+
+const ROUTES: any = [
+  { pathPrefix: '/inbox', action: 'focus' },
+  { glob: 'https://site.com/articles/*', action: 'navigate' },
+  { regex: '/settings(/|$)', action: 'message' },
+  { action: 'openWindow' }
+];
+
+function createClient(url: string): any {
+  return { url: url, focus: sinon.stub().resolves(), navigate: sinon.stub().resolves() };
+}
+
+test(`findRoute returns the first route matching the URL`, async t => {
+  t.is(NotificationClickRouteHelper.findRoute(ROUTES, 'https://site.com/inbox/42'), ROUTES[0]);
+  t.is(NotificationClickRouteHelper.findRoute(ROUTES, 'https://site.com/articles/news?id=1'), ROUTES[1]);
+  t.is(NotificationClickRouteHelper.findRoute(ROUTES, 'https://site.com/settings'), ROUTES[2]);
+  t.is(NotificationClickRouteHelper.findRoute(ROUTES, 'https://site.com/settingsx'), ROUTES[3]);
+  t.is(NotificationClickRouteHelper.findRoute(null, 'https://site.com/inbox'), null);
+});
+
+test(`routes with an invalid regular expression don't match`, async t => {
+  t.false(NotificationClickRouteHelper.matchesRoute({ regex: '(', action: 'focus' }, 'https://site.com/'));
+});
+
+test(`the focus action focuses a tab matching the route without navigating it`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const inboxClient = createClient('https://site.com/inbox');
+  const unicastStub = sinon.stub(ServiceWorker.workerMessenger, 'unicast');
+  try {
+    await ServiceWorker.routeNotificationClick(ROUTES[0], { id: 'id' }, 'https://site.com/inbox/42', [
+      createClient('https://site.com/articles/1'),
+      inboxClient
+    ]);
+    t.true(inboxClient.focus.calledOnce);
+    t.false(inboxClient.navigate.called);
+    t.true(unicastStub.calledWith(WorkerMessengerCommand.NotificationClicked, { id: 'id' }, inboxClient));
+  } finally {
+    unicastStub.restore();
+  }
+});
+
+test(`the navigate action navigates a tab matching the route`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const articleClient = createClient('https://site.com/articles/1');
+  await ServiceWorker.routeNotificationClick(ROUTES[1], { id: 'id' }, 'https://site.com/articles/2', [articleClient]);
+  t.true(articleClient.focus.calledOnce);
+  t.true(articleClient.navigate.calledWith('https://site.com/articles/2'));
+});
+
+test(`the message action only notifies tabs matching the route`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const settingsClient = createClient('https://site.com/settings/');
+  const unicastStub = sinon.stub(ServiceWorker.workerMessenger, 'unicast');
+  const openUrlStub = sinon.stub(ServiceWorker, 'openUrl').resolves();
+  try {
+    await ServiceWorker.routeNotificationClick(ROUTES[2], { id: 'id' }, 'https://site.com/settings', [
+      settingsClient,
+      createClient('https://site.com/inbox')
+    ]);
+    t.true(unicastStub.calledOnce);
+    t.is(unicastStub.getCall(0).args[2], settingsClient);
+    t.false(settingsClient.focus.called);
+    t.false(openUrlStub.called);
+  } finally {
+    unicastStub.restore();
+    openUrlStub.restore();
+  }
+});
+
+test(`a new window is opened when no tab matches the route`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const openUrlStub = sinon.stub(ServiceWorker, 'openUrl').resolves();
+  try {
+    await ServiceWorker.routeNotificationClick(ROUTES[0], { id: 'id' }, 'https://site.com/inbox/42', [
+      createClient('https://site.com/articles/1')
+    ]);
+    t.true(openUrlStub.calledWith('https://site.com/inbox/42'));
+  } finally {
+    openUrlStub.restore();
+  }
+});
@@ -0,0 +1,69 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import Database from '../../../src/services/Database';
+import { Uuid } from '../../../src/models/Uuid';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+test(`the expiry is mapped from the push payload`, async t => {
+  const notification = ServiceWorker.buildStructuredNotificationObject({
+    title: 'Flash sale',
+    alert: 'Ends soon',
+    custom: { i: 'id' },
+    exp: 1509537600000
+  });
+  t.is(notification.expiry, 1509537600000);
+});
+
+test(`notifications received after their expiry are not displayed`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+
+  await ServiceWorker.displayNotification({ id: 'current', content: 'Current', expiry: Date.now() + HOUR_IN_MS });
+  await ServiceWorker.displayReceivedNotification({ id: 'expired', content: 'Expired', expiry: Date.now() - HOUR_IN_MS });
+  const notifications = await (self as any).registration.getNotifications();
+  t.deepEqual(notifications.map(n => n.body), ['Current']);
+});
+
+test(`the generic notification replaces an expired notification if none is displayed`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+
+  await ServiceWorker.displayReceivedNotification({ id: 'expired', content: 'Expired', expiry: Date.now() - HOUR_IN_MS });
+  const notifications = await (self as any).registration.getNotifications();
+  t.deepEqual(notifications.map(n => n.body), ['You have new updates.']);
+  t.true(notifications[0].data.data.__isOneSignalBackupNotification);
+});
+
+test(`displayed notifications are closed once they expire`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+
+  await ServiceWorker.displayNotification({ id: 'expiring', content: 'Expiring', expiry: Date.now() + HOUR_IN_MS });
+  await ServiceWorker.displayNotification({ id: 'lasting', content: 'Lasting' });
+  const notifications = await (self as any).registration.getNotifications();
+  notifications[0].data.expiry = Date.now() - 1;
+
+  await ServiceWorker.closeExpiredNotifications();
+  const remainingNotifications = await (self as any).registration.getNotifications();
+  t.deepEqual(remainingNotifications.map(n => n.body), ['Lasting']);
+});
+
+test(`the backup notification doesn't show an expired notification again`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.put('Ids', {
+    type: 'backupNotification',
+    id: { id: 'expired', content: 'Expired', expiry: Date.now() - HOUR_IN_MS }
+  });
+
+  await ServiceWorker.displayBackupNotification();
+  const notifications = await (self as any).registration.getNotifications();
+  t.deepEqual(notifications.map(n => n.body), ['You have new updates.']);
+});
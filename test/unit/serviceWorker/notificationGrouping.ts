@@ -0,0 +1,71 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { Uuid } from '../../../src/models/Uuid';
+import OneSignalApi from '../../../src/OneSignalApi';
+import Database from '../../../src/services/Database';
+import { AppConfig } from '../../../src/models/AppConfig';
+
+test(`notifications sharing a group key are collapsed into one summary notification`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+
+  await ServiceWorker.displayNotification({ id: 'first', content: 'Hi', group: 'chat-1', groupName: 'Alice' });
+  let notifications = await (self as any).registration.getNotifications();
+  t.is(notifications.length, 1);
+  t.is(notifications[0].body, 'Hi');
+
+  await ServiceWorker.displayNotification({ id: 'second', content: 'Are you there?', group: 'chat-1', groupName: 'Alice' });
+  await ServiceWorker.displayNotification({ id: 'third', content: 'Hello?', group: 'chat-1', groupName: 'Alice' });
+  notifications = await (self as any).registration.getNotifications();
+  t.is(notifications.length, 1);
+  t.is(notifications[0].body, '3 new messages from Alice');
+  t.is(notifications[0].tag, ServiceWorker.getGroupTag('chat-1'));
+  t.deepEqual(notifications[0].data.groupedNotifications.map(n => n.id), ['first', 'second', 'third']);
+  t.deepEqual(notifications[0].data.groupedNotifications.map(n => n.content), ['Hi', 'Are you there?', 'Hello?']);
+});
+
+test(`a group's summary notification uses the site's summary text in the user's language`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.setLanguage('de');
+  await Database.put('Options', {
+    key: 'groupSummaryText',
+    value: { en: '{count} new messages from {group}', de: '{count} neue Nachrichten von {group}' }
+  });
+
+  await ServiceWorker.displayNotification({ id: 'first', content: 'Hi', group: 'chat-1', groupName: 'Alice' });
+  await ServiceWorker.displayNotification({ id: 'second', content: 'Hallo?', group: 'chat-1', groupName: 'Alice' });
+  const notifications = await (self as any).registration.getNotifications();
+  t.is(notifications.length, 1);
+  t.is(notifications[0].body, '2 neue Nachrichten von Alice');
+});
+
+test(`clicking a group's summary notification reports every grouped notification as opened`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js`)
+  });
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  await Database.setAppConfig(appConfig);
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+
+  const putStub = sinon.stub(OneSignalApi, 'put').resolves();
+  const executeWebhooksStub = sinon.stub(ServiceWorker, 'executeWebhooks').resolves();
+  try {
+    await ServiceWorker.sendNotificationOpened({
+      id: 'second',
+      groupedNotifications: [{ id: 'first' }, { id: 'second' }]
+    });
+    t.deepEqual(putStub.getCalls().map(call => call.args[0]), ['notifications/first', 'notifications/second']);
+  } finally {
+    putStub.restore();
+    executeWebhooksStub.restore();
+  }
+});
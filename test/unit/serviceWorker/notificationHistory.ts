@@ -0,0 +1,73 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import Database from '../../../src/services/Database';
+import { WorkerMessengerCommand } from '../../../src/libraries/WorkerMessenger';
+
+test(`recordNotificationHistory records when a notification is displayed, clicked, and dismissed`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js`)
+  });
+
+  const notification: any = {
+    id: 'notification-1',
+    heading: 'Title',
+    content: 'Body',
+    url: 'https://site.com/article',
+    data: { key: 'value' }
+  };
+
+  await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationDisplayed, notification);
+  let entry = await Database.getNotificationHistoryEntry('notification-1');
+  t.is(entry.title, 'Title');
+  t.is(entry.body, 'Body');
+  t.is(entry.url, 'https://site.com/article');
+  t.deepEqual(entry.data, { key: 'value' });
+  t.true(typeof entry.displayedAt === 'number');
+  t.is(entry.clickedAt, undefined);
+
+  notification.action = 'reply';
+  await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationClicked, notification);
+  entry = await Database.getNotificationHistoryEntry('notification-1');
+  t.is(entry.action, 'reply');
+  t.true(typeof entry.clickedAt === 'number');
+
+  await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationDismissed, notification);
+  entry = await Database.getNotificationHistoryEntry('notification-1');
+  t.true(typeof entry.dismissedAt === 'number');
+  t.is((await Database.getNotificationHistory()).length, 1);
+});
+
+test(`recordNotificationHistory keeps only the most recently displayed notifications`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js`)
+  });
+
+  for (let i = 0; i < ServiceWorker.NOTIFICATION_HISTORY_LIMIT; i++) {
+    await Database.putNotificationHistoryEntry({
+      id: `old-${i}`,
+      title: null,
+      body: 'Body',
+      url: null,
+      data: null,
+      displayedAt: i + 1
+    });
+  }
+
+  await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationDisplayed, { id: 'new', content: 'Body' });
+
+  const history = await Database.getNotificationHistory();
+  t.is(history.length, ServiceWorker.NOTIFICATION_HISTORY_LIMIT);
+  t.is(history[0].id, 'new');
+  t.falsy(await Database.getNotificationHistoryEntry('old-0'));
+});
+
+test(`recordNotificationHistory ignores notifications without an ID`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js`)
+  });
+
+  await ServiceWorker.recordNotificationHistory(WorkerMessengerCommand.NotificationDisplayed, { content: 'You have new updates.' });
+  t.deepEqual(await Database.getNotificationHistory(), []);
+});
@@ -0,0 +1,72 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { Uuid } from '../../../src/models/Uuid';
+
+test(`display options are mapped from the push payload`, async t => {
+  const notification = ServiceWorker.buildStructuredNotificationObject({
+    title: 'Title',
+    alert: 'Body',
+    custom: { i: 'id' },
+    badge: 'https://site.com/badge.png',
+    vibrate: [200, 100, 200],
+    silent: false,
+    timestamp: 1509537600000,
+    dir: 'rtl',
+    lang: 'ar',
+    renotify: false,
+    requireInteraction: true
+  });
+  t.is(notification.badge, 'https://site.com/badge.png');
+  t.deepEqual(notification.vibrate, [200, 100, 200]);
+  t.is(notification.silent, false);
+  t.is(notification.timestamp, 1509537600000);
+  t.is(notification.dir, 'rtl');
+  t.is(notification.lang, 'ar');
+  t.is(notification.renotify, false);
+  t.is(notification.requireInteraction, true);
+});
+
+test(`invalid display options are removed`, async t => {
+  const notification: any = {
+    silent: true,
+    vibrate: [200, 100],
+    timestamp: 'not a date',
+    dir: 'up',
+    lang: 'english language',
+    renotify: 'yes'
+  };
+  ServiceWorker.ensureNotificationOptionsValid(notification);
+  t.deepEqual(notification, { silent: true });
+
+  const datedNotification: any = { timestamp: '2017-11-01T12:00:00Z', vibrate: 'buzz' };
+  ServiceWorker.ensureNotificationOptionsValid(datedNotification);
+  t.deepEqual(datedNotification, { timestamp: Date.UTC(2017, 10, 1, 12, 0) });
+});
+
+test(`the badge is served over HTTPS`, async t => {
+  const notification: any = { badge: 'http://site.com/badge.png' };
+  ServiceWorker.ensureNotificationResourcesHttps(notification);
+  t.is(notification.badge, 'https://i0.wp.com/site.com/badge.png');
+});
+
+test(`display options are passed to showNotification`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+
+  await ServiceWorker.displayNotification({
+    heading: 'Title',
+    content: 'Body',
+    silent: true,
+    dir: 'ltr',
+    lang: 'en-US',
+    renotify: false
+  });
+  const [notification] = await (self as any).registration.getNotifications();
+  t.is(notification.silent, true);
+  t.is(notification.dir, 'ltr');
+  t.is(notification.lang, 'en-US');
+  t.is(notification.renotify, false);
+});
@@ -0,0 +1,79 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { Uuid } from '../../../src/models/Uuid';
+import OneSignalApi from '../../../src/OneSignalApi';
+import Database from '../../../src/services/Database';
+import { AppConfig } from '../../../src/models/AppConfig';
+import { NotificationReportKind } from '../../../src/models/NotificationReport';
+
+async function initializeRegisteredServiceWorker() {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js`)
+  });
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  await Database.setAppConfig(appConfig);
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+}
+
+test(`open reports that fail to send are queued once per notification and retried later`, async t => {
+  await initializeRegisteredServiceWorker();
+
+  const putStub = sinon.stub(OneSignalApi, 'put').rejects(new TypeError('Failed to fetch'));
+  try {
+    await ServiceWorker.reportNotifications(NotificationReportKind.Opened, [{ id: 'first' }]);
+    await ServiceWorker.reportNotifications(NotificationReportKind.Opened, [{ id: 'first' }]);
+    let reports = await Database.getNotificationReports();
+    t.deepEqual(reports.map(report => report.key), ['opened.first']);
+
+    putStub.resolves();
+    putStub.resetHistory();
+    await ServiceWorker.retryQueuedRequests();
+    t.deepEqual(putStub.getCalls().map(call => call.args[0]), ['notifications/first']);
+    t.true(putStub.getCall(0).args[1].opened);
+    t.deepEqual(await Database.getNotificationReports(), []);
+  } finally {
+    putStub.restore();
+  }
+});
+
+test(`a receipt is reported for each displayed notification`, async t => {
+  await initializeRegisteredServiceWorker();
+
+  const putStub = sinon.stub(OneSignalApi, 'put').resolves();
+  const executeWebhooksStub = sinon.stub(ServiceWorker, 'executeWebhooks').resolves();
+  try {
+    await ServiceWorker.displayReceivedNotification({ id: 'id', content: 'Body' });
+    t.deepEqual(putStub.getCalls().map(call => call.args[0]), ['notifications/id/report_received']);
+    t.deepEqual(await Database.getNotificationReports(), []);
+  } finally {
+    putStub.restore();
+    executeWebhooksStub.restore();
+  }
+});
+
+test(`reports are dropped after the maximum number of attempts`, async t => {
+  await initializeRegisteredServiceWorker();
+  await Database.putNotificationReport({
+    key: 'opened.id',
+    kind: NotificationReportKind.Opened,
+    notificationId: 'id',
+    appId: Uuid.generate().value,
+    playerId: Uuid.generate().value,
+    queuedAt: Date.now(),
+    attempts: ServiceWorker.NOTIFICATION_REPORT_MAX_ATTEMPTS - 1
+  });
+
+  const putStub = sinon.stub(OneSignalApi, 'put').rejects(new TypeError('Failed to fetch'));
+  try {
+    await ServiceWorker.sendNotificationReports();
+    t.deepEqual(await Database.getNotificationReports(), []);
+  } finally {
+    putStub.restore();
+  }
+});
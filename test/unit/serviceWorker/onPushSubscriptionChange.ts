@@ -0,0 +1,44 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { Uuid } from '../../../src/models/Uuid';
+import Database from '../../../src/services/Database';
+import { AppConfig } from '../../../src/models/AppConfig';
+import OneSignalApi from '../../../src/OneSignalApi';
+import { WorkerMessengerCommand } from '../../../src/libraries/WorkerMessenger';
+
+const VAPID_PUBLIC_KEY = "BApIoaDI71cs0_CyqXYeXJNGrfIcFE_kl8Z-Z46f7T20lO8OtHYXzh3q9z-eXVmLd9ohXtwnBZ5GibCmxvysB2Q";
+
+test(`onPushSubscriptionChange resubscribes and registers the new subscription with OneSignal`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js`)
+  });
+
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  appConfig.vapidPublicKey = VAPID_PUBLIC_KEY;
+  appConfig.onesignalVapidPublicKey = VAPID_PUBLIC_KEY;
+  await Database.setAppConfig(appConfig);
+
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  subscription.subscriptionToken = 'https://push.example.com/expired-token';
+  await Database.setSubscription(subscription);
+
+  const updateUserSessionStub = sinon.stub(OneSignalApi, 'updateUserSession').resolves(subscription.deviceId);
+  const broadcastStub = sinon.stub(ServiceWorker.workerMessenger, 'broadcast').resolves();
+  try {
+    await ServiceWorker.onPushSubscriptionChange({});
+
+    t.true(updateUserSessionStub.calledOnce);
+    const pushSubscription = await (self as any).registration.pushManager.getSubscription();
+    const { subscriptionToken } = await Database.getSubscription();
+    t.is(subscriptionToken, new URL(pushSubscription.endpoint).toString());
+    t.true(broadcastStub.calledWith(WorkerMessengerCommand.SubscriptionChanged));
+  } finally {
+    updateUserSessionStub.restore();
+    broadcastStub.restore();
+  }
+});
@@ -0,0 +1,73 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import { Uuid } from '../../../src/models/Uuid';
+
+test.beforeEach(async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  ServiceWorker.plugins = [];
+});
+
+test.serial(`onPush hooks transform the notification in registration order`, async t => {
+  ServiceWorker.use({ onPush: notification => ({ ...notification, heading: 'First' }) });
+  ServiceWorker.use({ onPush: notification => ({ ...notification, content: `${notification.heading} Body` }) });
+  ServiceWorker.use({ onPush: notification => undefined });
+
+  const notification = await ServiceWorker.applyPluginHooks('onPush', { heading: 'Title', content: 'Body' });
+  t.deepEqual(notification, { heading: 'First', content: 'First Body' });
+});
+
+test.serial(`an onPush hook can suppress the notification`, async t => {
+  const laterHook = sinon.spy();
+  ServiceWorker.use({ onPush: notification => false });
+  ServiceWorker.use({ onPush: laterHook });
+
+  t.is(await ServiceWorker.applyPluginHooks('onPush', { content: 'Body' }), null);
+  t.false(laterHook.called);
+});
+
+test.serial(`a plugin hook that throws is skipped`, async t => {
+  ServiceWorker.use({ onPush: notification => { throw new Error('Plugin error'); } });
+  ServiceWorker.use({ onPush: notification => ({ ...notification, content: 'Changed' }) });
+
+  t.deepEqual(await ServiceWorker.applyPluginHooks('onPush', { content: 'Body' }), { content: 'Changed' });
+});
+
+test.serial(`beforeDisplay hooks can change the displayed notification options`, async t => {
+  ServiceWorker.use({ beforeDisplay: options => ({ ...options, body: 'Changed' }) });
+
+  t.true(await ServiceWorker.displayNotification({ heading: 'Title', content: 'Body' }));
+  const notifications = await (self as any).registration.getNotifications();
+  t.is(notifications.length, 1);
+  t.is(notifications[0].body, 'Changed');
+});
+
+test.serial(`a beforeDisplay hook can suppress the notification`, async t => {
+  ServiceWorker.use({ beforeDisplay: options => false });
+
+  t.false(await ServiceWorker.displayNotification({ heading: 'Title', content: 'Body' }));
+  t.deepEqual(await (self as any).registration.getNotifications(), []);
+});
+
+test.serial(`an onClick hook returning true replaces opening the notification URL`, async t => {
+  const onClick = sinon.stub().resolves(true);
+  ServiceWorker.use({ onClick });
+  const openUrlStub = sinon.stub(ServiceWorker, 'openUrl').resolves();
+  const sendNotificationOpenedStub = sinon.stub(ServiceWorker, 'sendNotificationOpened').resolves();
+  try {
+    const notification = { id: Uuid.generate().value, url: 'https://site.com/article' };
+    const event = { notification: { data: notification, close: () => {} } };
+    await ServiceWorker.onNotificationClicked(event);
+
+    t.true(onClick.calledWith(notification, event));
+    t.false(openUrlStub.called);
+    t.true(sendNotificationOpenedStub.calledWith(notification));
+  } finally {
+    openUrlStub.restore();
+    sendNotificationOpenedStub.restore();
+  }
+});
@@ -0,0 +1,149 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import Database from '../../../src/services/Database';
+import OneSignalApi from '../../../src/OneSignalApi';
+import { AppConfig } from '../../../src/models/AppConfig';
+import QuietHoursHelper from '../../../src/helpers/QuietHoursHelper';
+import { Uuid } from '../../../src/models/Uuid';
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+test(`isQuietTime handles quiet hours within a day and spanning midnight`, async t => {
+  const daytime = { start: '12:00', end: '13:30' };
+  t.true(QuietHoursHelper.isQuietTime(daytime, new Date(2017, 10, 1, 12, 0)));
+  t.true(QuietHoursHelper.isQuietTime(daytime, new Date(2017, 10, 1, 13, 29)));
+  t.false(QuietHoursHelper.isQuietTime(daytime, new Date(2017, 10, 1, 13, 30)));
+  t.false(QuietHoursHelper.isQuietTime(daytime, new Date(2017, 10, 1, 11, 59)));
+
+  const overnight = { start: '22:00', end: '07:00' };
+  t.true(QuietHoursHelper.isQuietTime(overnight, new Date(2017, 10, 1, 23, 15)));
+  t.true(QuietHoursHelper.isQuietTime(overnight, new Date(2017, 10, 2, 6, 59)));
+  t.false(QuietHoursHelper.isQuietTime(overnight, new Date(2017, 10, 2, 7, 0)));
+  t.false(QuietHoursHelper.isQuietTime(overnight, new Date(2017, 10, 2, 15, 0)));
+});
+
+test(`isQuietTime handles quiet days and malformed times`, async t => {
+  // November 4, 2017 is a Saturday
+  t.true(QuietHoursHelper.isQuietTime({ days: [0, 6] }, new Date(2017, 10, 4, 15, 0)));
+  t.false(QuietHoursHelper.isQuietTime({ days: [0, 6] }, new Date(2017, 10, 3, 15, 0)));
+  t.false(QuietHoursHelper.isQuietTime({ start: '25:00', end: '07:00' }, new Date(2017, 10, 3, 1, 0)));
+  t.false(QuietHoursHelper.isQuietTime(null, new Date(2017, 10, 3, 1, 0)));
+});
+
+test(`notifications are held during quiet hours unless urgent`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.put('Options', { key: 'quietHours', value: { days: EVERY_DAY } });
+
+  await ServiceWorker.displayReceivedNotification({ id: 'held', content: 'Held' });
+  await ServiceWorker.displayReceivedNotification({ id: 'urgent', content: 'Urgent', priority: 10 });
+
+  const heldNotifications = await Database.getHeldNotifications();
+  t.deepEqual(heldNotifications.map(n => n.id), ['held']);
+  // A silent summary is shown instead, since every push message must display a notification
+  const notifications = await (self as any).registration.getNotifications();
+  t.deepEqual(notifications.map(n => n.body), ['You have 1 new notification.', 'Urgent']);
+  t.is(notifications[0].tag, ServiceWorker.QUIET_HOURS_TAG);
+  t.is(notifications[0].silent, true);
+
+  // Still quiet, so nothing held is shown yet
+  await ServiceWorker.displayQuietHoursDigest();
+  t.is((await Database.getHeldNotifications()).length, 1);
+});
+
+test(`held notifications are shown as a digest once quiet hours end`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.put('Options', { key: 'quietHours', value: { start: '00:00', end: '00:00' } });
+  await Database.setHeldNotifications([
+    { id: 'first', content: 'First' },
+    { id: 'second', content: 'Second' },
+    { id: 'third', content: 'Third' }
+  ]);
+
+  await ServiceWorker.displayQuietHoursDigest();
+
+  const notifications = await (self as any).registration.getNotifications();
+  t.is(notifications.length, 1);
+  t.is(notifications[0].body, 'You have 3 new notifications.');
+  t.is(notifications[0].tag, ServiceWorker.QUIET_HOURS_TAG);
+  t.deepEqual(await Database.getHeldNotifications(), []);
+});
+
+test(`the digest uses the site's summary text in the user's language`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.setLanguage('de');
+  await Database.put('Options', {
+    key: 'quietHours',
+    value: {
+      start: '00:00',
+      end: '00:00',
+      summaryText: { en: 'You have {count} new notifications.', de: 'Sie haben {count} neue Benachrichtigungen.' }
+    }
+  });
+  await Database.setHeldNotifications([{ id: 'first', content: 'First' }, { id: 'second', content: 'Second' }]);
+
+  await ServiceWorker.displayQuietHoursDigest();
+
+  const notifications = await (self as any).registration.getNotifications();
+  t.is(notifications[0].body, 'Sie haben 2 neue Benachrichtigungen.');
+});
+
+test(`only the most recent notifications are held`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js?appId=${Uuid.generate()}`)
+  });
+  await Database.put('Options', { key: 'quietHours', value: { days: EVERY_DAY } });
+  const heldNotifications = [];
+  for (let i = 0; i < ServiceWorker.QUIET_HOURS_HELD_NOTIFICATIONS_LIMIT; i++) {
+    heldNotifications.push({ id: `notification-${i}` });
+  }
+  await Database.setHeldNotifications(heldNotifications);
+
+  await ServiceWorker.displayReceivedNotification({ id: 'latest', content: 'Latest' });
+
+  const held = await Database.getHeldNotifications();
+  t.is(held.length, ServiceWorker.QUIET_HOURS_HELD_NOTIFICATIONS_LIMIT);
+  t.is(held[0].id, 'notification-1');
+  t.is(held[held.length - 1].id, 'latest');
+});
+
+test.serial(`clicking the held notifications' summary reports each of them as opened`, async t => {
+  await TestEnvironment.initializeForServiceWorker({
+    url: new URL(`https://site.com/service-worker.js`)
+  });
+  const appConfig = new AppConfig();
+  appConfig.appId = Uuid.generate();
+  await Database.setAppConfig(appConfig);
+  const subscription = await Database.getSubscription();
+  subscription.deviceId = Uuid.generate();
+  await Database.setSubscription(subscription);
+  await Database.put('Options', { key: 'quietHours', value: { days: EVERY_DAY } });
+
+  const putStub = sinon.stub(OneSignalApi, 'put').resolves();
+  const executeWebhooksStub = sinon.stub(ServiceWorker, 'executeWebhooks').resolves();
+  const getActiveClientsStub = sinon.stub(ServiceWorker, 'getActiveClients').resolves([]);
+  const openUrlStub = sinon.stub(ServiceWorker, 'openUrl').resolves();
+  try {
+    await ServiceWorker.displayReceivedNotification({ id: 'first', content: 'First' });
+    await ServiceWorker.displayReceivedNotification({ id: 'second', content: 'Second' });
+    const [summary] = await (self as any).registration.getNotifications({ tag: ServiceWorker.QUIET_HOURS_TAG });
+    putStub.reset();
+
+    await ServiceWorker.onNotificationClicked({ notification: summary });
+    t.deepEqual(putStub.getCalls().map(call => call.args[0]), ['notifications/first', 'notifications/second']);
+    t.deepEqual(await Database.getHeldNotifications(), []);
+  } finally {
+    putStub.restore();
+    executeWebhooksStub.restore();
+    getActiveClientsStub.restore();
+    openUrlStub.restore();
+  }
+});
@@ -0,0 +1,105 @@
+import '../../support/polyfills/polyfills';
+import test from 'ava';
+import * as sinon from 'sinon';
+import { ServiceWorker } from '../../../src/service-worker/ServiceWorker';
+import { TestEnvironment } from '../../support/sdk/TestEnvironment';
+import Database from '../../../src/services/Database';
+import Crypto from '../../../src/services/Crypto';
+
+test(`hmacSha256 computes an HMAC-SHA256 hex digest`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  t.is(
+    Crypto.hmacSha256('key', 'The quick brown fox jumps over the lazy dog'),
+    'f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8'
+  );
+});
+
+test(`failed webhook requests are queued and retried with the same event ID`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.put('Options', { key: 'webhooks.notification.clicked', value: 'https://site.com/webhook' });
+
+  const fetchStub = sinon.stub(global, 'fetch').rejects(new TypeError('Failed to fetch'));
+  try {
+    await ServiceWorker.executeWebhooks('notification.clicked', { id: 'id' });
+    let [queuedWebhook] = await Database.getQueuedWebhooks();
+    t.is(queuedWebhook.attempts, 1);
+    t.true(queuedWebhook.nextAttemptAt >= Date.now() + ServiceWorker.WEBHOOK_RETRY_DELAY - 1000);
+    const eventId = JSON.parse(fetchStub.getCall(0).args[1].body).eventId;
+    t.is(queuedWebhook.id, eventId);
+
+    // Not retried until the backoff delay has passed
+    await ServiceWorker.retryQueuedWebhooks();
+    t.true(fetchStub.calledOnce);
+
+    queuedWebhook.nextAttemptAt = Date.now();
+    await Database.putQueuedWebhook(queuedWebhook);
+    fetchStub.resolves({ status: 200 });
+    await ServiceWorker.retryQueuedWebhooks();
+    t.true(fetchStub.calledTwice);
+    t.is(JSON.parse(fetchStub.getCall(1).args[1].body).eventId, eventId);
+    t.deepEqual(await Database.getQueuedWebhooks(), []);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test(`webhook requests are dropped after the maximum number of attempts`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.putQueuedWebhook({
+    id: 'event-id',
+    event: 'notification.clicked',
+    url: 'https://site.com/webhook',
+    body: '{}',
+    queuedAt: Date.now(),
+    attempts: ServiceWorker.WEBHOOK_MAX_ATTEMPTS - 1,
+    nextAttemptAt: Date.now()
+  });
+
+  const fetchStub = sinon.stub(global, 'fetch').rejects(new TypeError('Failed to fetch'));
+  try {
+    await ServiceWorker.retryQueuedWebhooks();
+    t.deepEqual(await Database.getQueuedWebhooks(), []);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test(`concurrent retries deliver each queued webhook once`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.putQueuedWebhook({
+    id: 'event-id',
+    event: 'notification.clicked',
+    url: 'https://site.com/webhook',
+    body: '{}',
+    queuedAt: Date.now(),
+    attempts: 1,
+    nextAttemptAt: Date.now()
+  });
+
+  const fetchStub = sinon.stub(global, 'fetch').resolves({ status: 200 });
+  try {
+    await Promise.all([ServiceWorker.retryQueuedWebhooks(), ServiceWorker.retryQueuedWebhooks()]);
+    t.true(fetchStub.calledOnce);
+    t.deepEqual(await Database.getQueuedWebhooks(), []);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+test(`CORS webhook requests are signed with the configured secret`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  await Database.put('Options', { key: 'webhooks.notification.dismissed', value: 'https://site.com/webhook' });
+  await Database.put('Options', { key: 'webhooks.cors', value: true });
+  await Database.put('Options', { key: 'webhooks.secret', value: 'secret' });
+
+  const fetchStub = sinon.stub(global, 'fetch').resolves({ status: 200 });
+  try {
+    await ServiceWorker.executeWebhooks('notification.dismissed', { id: 'id' });
+    const { headers, body } = fetchStub.getCall(0).args[1];
+    t.is(headers['X-OneSignal-Event'], 'notification.dismissed');
+    t.is(headers['X-OneSignal-Event-Id'], JSON.parse(body).eventId);
+    t.is(headers['X-OneSignal-Signature'], `sha256=${Crypto.hmacSha256('secret', body)}`);
+  } finally {
+    fetchStub.restore();
+  }
+});
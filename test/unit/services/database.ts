@@ -0,0 +1,46 @@
+import "../../support/polyfills/polyfills";
+import test from "ava";
+import { TestEnvironment } from "../../support/sdk/TestEnvironment";
+import Database from "../../../src/services/Database";
+import { NotificationReportKind } from "../../../src/models/NotificationReport";
+import { Uuid } from "../../../src/models/Uuid";
+
+test(`rebuild should clear every object store`, async t => {
+  await TestEnvironment.initialize();
+  await Database.put('Options', { key: 'defaultTitle', value: 'Title' });
+  await Database.putTagOperations({ level: '1' });
+  await Database.putNotificationHistoryEntry({
+    id: 'id',
+    title: null,
+    body: 'Body',
+    url: null,
+    data: null,
+    displayedAt: Date.now()
+  });
+  await Database.putQueuedWebhook({
+    id: 'event-id',
+    event: 'notification.clicked',
+    url: 'https://site.com/webhook',
+    body: '{}',
+    queuedAt: Date.now(),
+    attempts: 1,
+    nextAttemptAt: Date.now()
+  });
+  await Database.putNotificationReport({
+    key: 'opened.id',
+    kind: NotificationReportKind.Opened,
+    notificationId: 'id',
+    appId: Uuid.generate().value,
+    playerId: Uuid.generate().value,
+    queuedAt: Date.now(),
+    attempts: 0
+  });
+
+  await Database.rebuild();
+
+  t.is(await Database.get<string>('Options', 'defaultTitle'), null);
+  t.deepEqual(await Database.getTagOperations(), []);
+  t.deepEqual(await Database.getNotificationHistory(), []);
+  t.deepEqual(await Database.getQueuedWebhooks(), []);
+  t.deepEqual(await Database.getNotificationReports(), []);
+});
@@ -1,7 +1,8 @@
 import '../support/polyfills/polyfills';
 import test from "ava";
-import { timeoutPromise } from "../../src/utils";
+import { timeoutPromise, unsubscribeFromPush } from "../../src/utils";
 import TimeoutError from '../../src/errors/TimeoutError';
+import { TestEnvironment, HttpHttpsEnvironment } from '../support/sdk/TestEnvironment';
 
 
 test(`timeoutPromise should reject after the specified amount of time`, async t => {
@@ -29,3 +30,28 @@ test(`timeoutPromise should resolve target promise if its faster`, async t => {
     t.fail("No error should have been raised.");
   }
 });
+
+test(`unsubscribeFromPush should unsubscribe the service worker's own registration in the service worker`, async t => {
+  await TestEnvironment.initializeForServiceWorker();
+  const pushManager = (self as any).registration.pushManager;
+  await pushManager.subscribe({});
+
+  await unsubscribeFromPush();
+  t.is(await pushManager.getSubscription(), null);
+
+  // Not being subscribed isn't an error
+  await t.notThrows(unsubscribeFromPush());
+});
+
+test(`unsubscribeFromPush should unsubscribe the page's service worker registration on a page`, async t => {
+  await TestEnvironment.initialize({
+    httpOrHttps: HttpHttpsEnvironment.Https
+  });
+  const registration = await navigator.serviceWorker.register('/Worker-A.js');
+  await registration.pushManager.subscribe({} as any);
+
+  await unsubscribeFromPush();
+  t.is(await registration.pushManager.getSubscription(), null);
+
+  await t.notThrows(unsubscribeFromPush());
+});
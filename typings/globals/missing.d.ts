@@ -52,6 +52,7 @@ interface ServiceWorkerGlobalScope {
   addEventListener(type: "activate", listener: (this: this, ev: any) => any, ...args): void;
   addEventListener(type: "pushsubscriptionchange", listener: (this: this, ev: any) => any, ...args): void;
   addEventListener(type: "fetch", listener: (this: this, ev: any) => any, ...args): void;
+  addEventListener(type: "sync", listener: (this: this, ev: any) => any, ...args): void;
   readonly location: Location;
 }
 